@@ -6,7 +6,7 @@ import { satteri } from "@astrojs/markdown-satteri";
 import path from "node:path";
 import fs from "node:fs";
 import JSON5 from "json5";
-import { CUSTOM_DOMAIN, BASE_PATH, EXTERNAL_CONTENT_CONFIG } from "./src/constants";
+import { CUSTOM_DOMAIN, BASE_PATH, EXTERNAL_CONTENT_CONFIG, CONTENT_LINT } from "./src/constants";
 import satteriExternalMdxAssets from "./src/lib/external-content/satteri-external-mdx-assets";
 import { externalContentVitePlugins } from "./src/lib/vite-external-content-plugins";
 
@@ -43,6 +43,7 @@ import rssContentEnhancer from "./src/integrations/rss-content-enhancer";
 import markdownExporter from "./src/integrations/markdown-exporter";
 import externalRenderCacher from "./src/integrations/external-render-cacheer";
 import CSSWriter from "./src/integrations/theme-constants-to-css";
+import contentLinter from "./src/integrations/content-linter";
 import createFoldersIfMissing from "./src/integrations/create-folders-if-missing";
 import citationsInitializer from "./src/integrations/citations-initializer";
 import astroImageCacheCleanerCopier from "./src/integrations/astro-image-cache-cleaner-copier";
@@ -185,6 +186,7 @@ export default defineConfig({
 		externalRenderCacher(),
 		PublicNotionCopier(),
 		astroImageCacheCleanerCopier(),
+		CONTENT_LINT.enabled ? contentLinter() : undefined,
 		DeleteBuildCache(),
 	],
 	image: {
@@ -155,6 +155,7 @@ export const BUILD_FOLDER_PATHS = {
 	tmp: "./tmp",
 	styles: path.join("src", "styles"),
 	blocksJson: path.join("./tmp", "blocks-json-cache"),
+	blocksJsonPerBlock: path.join("./tmp", "blocks-json-cache", "blocks"),
 	headingsCache: path.join("./tmp", "blocks-json-cache", "headings"),
 	interlinkedContentInPage: path.join("./tmp", "blocks-json-cache", "interlinked-content-in-page"),
 	interlinkedContentToPage: path.join("./tmp", "blocks-json-cache", "interlinked-content-to-page"),
@@ -166,6 +167,10 @@ export const BUILD_FOLDER_PATHS = {
 	blocksHtmlCache: path.join("./tmp", "blocks-html-cache"),
 	interlinkedContentHtmlCache: path.join("./tmp", "blocks-html-cache", "interlinked-content"),
 	markdownCache: path.join("./tmp", "markdown-cache"),
+	relatedPosts: path.join("./tmp", "related-posts"),
+	// Outside tmp: revision snapshots cannot be rebuilt, so cache trims must not delete them
+	revisions: "./revisions",
+	graphvizCache: path.join("./tmp", "graphviz-cache"),
 	astroAssetsCache: path.join("./tmp", ".astro", "assets"),
 	public: path.join("./public"),
 	publicNotion: path.join("./public", "notion/"),
@@ -200,7 +205,69 @@ export const DATABASE_ID =
 	process.env.DATABASE_ID || key_value_from_json?.notion?.["database-id"] || "";
 export const DATA_SOURCE_ID =
 	process.env.DATA_SOURCE_ID || key_value_from_json?.notion?.["data-source-id"] || "";
+export const NOTION_REQUESTS = {
+	maxConcurrentRequests: key_value_from_json?.notion?.["max-concurrent-requests"] ?? 3,
+	maxRetries: key_value_from_json?.notion?.["max-retries"] ?? 5,
+};
+// Logical entry fields and the Notion property that backs each of them
+export type MappedField =
+	| "published"
+	| "publish-date"
+	| "slug"
+	| "collection"
+	| "tags"
+	| "excerpt"
+	| "featured-image"
+	| "rank"
+	| "pinned"
+	| "bluesky-post-link"
+	| "external-url"
+	| "authors"
+	| "series"
+	| "series-order"
+	| "language"
+	| "translations";
+
+export interface PropertyMappingEntry {
+	name: string;
+	type: string;
+	value?: string;
+}
+
+const defaultPropertyMapping: Record<MappedField, PropertyMappingEntry> = {
+	published: { name: "Published", type: "checkbox" },
+	"publish-date": { name: "Publish Date", type: "formula" },
+	slug: { name: "Slug", type: "formula" },
+	collection: { name: "Collection", type: "select" },
+	tags: { name: "Tags", type: "multi_select" },
+	excerpt: { name: "Excerpt", type: "rich_text" },
+	"featured-image": { name: "FeaturedImage", type: "files" },
+	rank: { name: "Rank", type: "number" },
+	pinned: { name: "Pinned", type: "checkbox" },
+	"bluesky-post-link": { name: "Bluesky Post Link", type: "url" },
+	"external-url": { name: "External URL", type: "url" },
+	authors: { name: "Authors", type: "multi_select" },
+	series: { name: "Series", type: "select" },
+	"series-order": { name: "Series Order", type: "number" },
+	language: { name: "Language", type: "select" },
+	translations: { name: "Translations", type: "relation" },
+};
+
+export const PROPERTY_MAPPING: Record<MappedField, PropertyMappingEntry> = Object.fromEntries(
+	Object.entries(defaultPropertyMapping).map(([field, fallback]) => [
+		field,
+		{ ...fallback, ...(key_value_from_json?.["property-mapping"]?.[field] || {}) },
+	]),
+) as Record<MappedField, PropertyMappingEntry>;
+
+// Offline builds: replay recorded Notion responses from this directory instead of calling the API
+export const NOTION_FIXTURES_DIR = process.env.NOTION_FIXTURES_DIR || "";
+// Record every Notion response into this directory (for use as NOTION_FIXTURES_DIR later)
+export const NOTION_RECORD_FIXTURES_DIR = process.env.NOTION_RECORD_FIXTURES_DIR || "";
+// Preview deploys: also build unpublished and future-dated entries under /preview/ (noindex, unlisted)
+export const PREVIEW_DRAFTS = ["true", "1"].includes(process.env.PREVIEW_DRAFTS || "");
 export const AUTHOR = key_value_from_json?.["site-info"]?.author || "";
+export const SITE_LANGUAGE = key_value_from_json?.["site-info"]?.language || "en";
 
 // Authors configuration for multi-author support
 export interface AuthorsConfig {
@@ -291,7 +358,8 @@ export const IN_PAGE_FOOTNOTES_ENABLED =
 
 /**
  * Citations configuration
- * - "add-cite-this-post-section": Show BibTeX entry for current page
+ * - "add-cite-this-post-section": Show BibTeX, RIS, CSL-JSON and formatted citations for the
+ *   current page, with cite.{bib,ris,json} downloads and Highwire citation_* meta tags
  * - "extract-and-process-bibtex-citations": Automatic citation processing from BibTeX files
  */
 export const CITATIONS = key_value_from_json?.["auto-extracted-sections"]?.citations || null;
@@ -305,15 +373,21 @@ export const BIBTEX_CITATIONS_ENABLED = (() => {
 	return Array.isArray(urlList) && urlList.length > 0;
 })();
 
-// Get bibliography style (either "apa" or "simplified-ieee")
-export const BIBLIOGRAPHY_STYLE = (() => {
+// Get bibliography style: a CSL style id or a .csl path in the repo (the older
+// { "simplified-ieee": true, apa: false } object is still read)
+export const BIBLIOGRAPHY_STYLE: string | null = (() => {
 	if (!CITATIONS?.["extract-and-process-bibtex-citations"]) return null;
 	const formats = CITATIONS["extract-and-process-bibtex-citations"]["bibliography-format"];
+	if (typeof formats === "string" && formats.trim()) return formats.trim();
 	if (formats?.["simplified-ieee"]) return "simplified-ieee";
 	if (formats?.apa) return "apa";
 	return "simplified-ieee"; // default
 })();
 
+// Per-collection style overrides, keyed by collection name
+export const BIBLIOGRAPHY_STYLE_BY_COLLECTION: Record<string, string> =
+	CITATIONS?.["extract-and-process-bibtex-citations"]?.["bibliography-format-by-collection"] || {};
+
 export const OG_SETUP = key_value_from_json["og-setup"] || {
 	columns: 1,
 	excerpt: false,
@@ -328,9 +402,13 @@ const defaultShortcodes = {
 	"html-inject": "<!DOCTYPE html> <!-- inject -->",
 	"alt-text": null,
 	"expressive-code": null,
+	"figure-label": null,
 	"shiki-transform": "",
+	"code-group": "",
 	table: "",
 	"wide-breakout": "",
+	"database-gallery": "",
+	"database-list": "",
 };
 
 const resolvedShortcodes =
@@ -368,6 +446,27 @@ console.log("Last Build Start Time:", LAST_BUILD_TIME);
 export const INTERLINKED_CONTENT =
 	key_value_from_json?.["auto-extracted-sections"]?.["interlinked-content"] || null;
 
+export const RELATED_POSTS = {
+	enabled: key_value_from_json?.["auto-extracted-sections"]?.["related-posts"]?.enabled ?? false,
+	count: key_value_from_json?.["auto-extracted-sections"]?.["related-posts"]?.count ?? 3,
+	weights: {
+		tags: 1,
+		collection: 0.5,
+		links: 1.5,
+		text: 2,
+		...(key_value_from_json?.["auto-extracted-sections"]?.["related-posts"]?.weights || {}),
+	} as Record<"tags" | "collection" | "links" | "text", number>,
+};
+
+// Build-time checks for broken links, footnotes, citations, image captions and code shortcodes
+export const CONTENT_LINT = {
+	enabled: key_value_from_json?.["content-lint"]?.enabled ?? false,
+	report: (key_value_from_json?.["content-lint"]?.report === "dist" ? "dist" : "console") as
+		"console" | "dist",
+	failOn: (key_value_from_json?.["content-lint"]?.["fail-on"] || "none") as
+		"info" | "warning" | "error" | "none",
+};
+
 export const RECENT_POSTS_ON_HOME_PAGE =
 	key_value_from_json?.["collections-and-listings"]?.["recent-posts-on-home-page"] || false;
 
@@ -394,6 +493,34 @@ export const GOOGLE_SEARCH_CONSOLE_META_TAG =
 export const FULL_WIDTH_SM =
 	key_value_from_json?.["block-rendering"]?.["full-width-social-embeds"] || false;
 
+// Per-page numbers for labelled (or all captioned) figures, tables and code listings
+export const FIGURE_NUMBERING = {
+	enabled: key_value_from_json?.["block-rendering"]?.["figure-numbering"]?.enabled ?? false,
+	numberUnlabelled:
+		key_value_from_json?.["block-rendering"]?.["figure-numbering"]?.["number-unlabelled"] ?? false,
+	listOfFigures:
+		key_value_from_json?.["block-rendering"]?.["figure-numbering"]?.["list-of-figures"] ?? false,
+};
+
+// Callouts that start with "Keyword:" become theorem-like environments; keywords map to a counter
+export const THEOREM_ENVIRONMENTS = {
+	enabled: key_value_from_json?.["block-rendering"]?.["theorem-environments"]?.enabled ?? false,
+	environments: (key_value_from_json?.["block-rendering"]?.["theorem-environments"]
+		?.environments || {
+		Theorem: "theorem",
+		Lemma: "theorem",
+		Corollary: "theorem",
+		Proposition: "theorem",
+		Definition: "definition",
+		Example: "example",
+		Remark: null,
+		Proof: null,
+	}) as Record<string, string | null>,
+	qedEnvironments: (key_value_from_json?.["block-rendering"]?.["theorem-environments"]?.[
+		"qed-environments"
+	] || ["Proof"]) as string[],
+};
+
 const TRANSFORMER_FUNCTIONS_ARR = [
 	transformerNotationFocus(),
 	transformerNotationDiff(),
@@ -0,0 +1,54 @@
+import type { AstroIntegration } from "astro";
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+import fs from "node:fs/promises";
+import { CONTENT_LINT } from "../constants";
+import { isAtOrAboveSeverity, lintContent, type ContentLintIssue } from "../lib/content-lint";
+
+const REPORT_FILE = "content-lint-report.json";
+
+function formatIssue(issue: ContentLintIssue): string {
+	const where = issue.post
+		? ` ${issue.post.Slug}${issue.blockId ? ` (block ${issue.blockId})` : ""}:`
+		: "";
+	return `[${issue.severity}] ${issue.rule}${where} ${issue.message}`;
+}
+
+export default (): AstroIntegration => ({
+	name: "content-linter",
+	hooks: {
+		"astro:build:done": async ({ dir, logger }) => {
+			const issues = await lintContent();
+
+			if (issues.length === 0) {
+				logger.info("No content issues found.");
+			} else {
+				for (const issue of issues) {
+					const line = formatIssue(issue);
+					if (issue.severity === "error") logger.error(line);
+					else if (issue.severity === "warning") logger.warn(line);
+					else logger.info(line);
+				}
+			}
+
+			if (CONTENT_LINT.report === "dist") {
+				const reportPath = path.join(fileURLToPath(dir), REPORT_FILE);
+				await fs.writeFile(
+					reportPath,
+					JSON.stringify({ generated: new Date().toISOString(), issues }, null, 2),
+					"utf-8",
+				);
+				logger.info(`Content lint report written to ${REPORT_FILE}`);
+			}
+
+			const failOn = CONTENT_LINT.failOn;
+			if (failOn === "none") return;
+			const failing = issues.filter((issue) => isAtOrAboveSeverity(issue.severity, failOn));
+			if (failing.length > 0) {
+				throw new Error(
+					`Content lint found ${failing.length} issue${failing.length === 1 ? "" : "s"} at or above "${failOn}" severity.`,
+				);
+			}
+		},
+	},
+});
@@ -2,117 +2,174 @@ import type { AstroIntegration } from "astro";
 import {
 	downloadFile,
 	getAllEntries,
+	getAllSubPages,
 	generateFilePath,
 	getPostContentByPostId,
 	createInterlinkedContentToThisEntry,
 	isImageTypeForAstro,
+	logNotionRequestStats,
 } from "../lib/notion/client";
-import { COVER_AS_HERO_BACKGROUND_ENABLED, LAST_BUILD_TIME, LISTING_VIEW } from "../constants";
+import {
+	COVER_AS_HERO_BACKGROUND_ENABLED,
+	LAST_BUILD_TIME,
+	LISTING_VIEW,
+	NOTION_REQUESTS,
+	RELATED_POSTS,
+} from "../constants";
+import { buildRelatedPosts } from "../lib/related-posts";
+import type { Post } from "../lib/interfaces";
 import fs from "node:fs";
 import path from "node:path";
 
+// Download Cover image for overlay (only to src/assets/notion)
+function downloadCover(entry: Post): ReturnType<typeof downloadFile> | null {
+	if (!COVER_AS_HERO_BACKGROUND_ENABLED || !entry.Cover || !entry.Cover.Url) {
+		return null;
+	}
+	try {
+		const url = new URL(entry.Cover.Url);
+		const isImage =
+			isImageTypeForAstro(url.pathname) ||
+			(url.hostname.includes("unsplash") &&
+				url.searchParams.has("fm") &&
+				url.searchParams.get("fm") !== "gif");
+
+		if (isImage) {
+			const assetsPath = generateFilePath(url, true);
+			const needsAssetsDownload =
+				!LAST_BUILD_TIME ||
+				entry.LastUpdatedTimeStamp > LAST_BUILD_TIME ||
+				!fs.existsSync(assetsPath);
+
+			if (needsAssetsDownload) {
+				return downloadFile(url, true);
+			}
+		}
+	} catch (err) {
+		console.log("Invalid Cover URL");
+	}
+	return null;
+}
+
 export default (): AstroIntegration => ({
 	name: "entry-cache-er",
 	hooks: {
 		"astro:build:start": async () => {
 			const entries = await getAllEntries();
 
-			const interlinkedContentInEntries = await Promise.all(
-				entries.map(async (entry) => {
-					let tasks = [];
-
-					// Download Cover image for overlay (only to src/assets/notion)
-					if (COVER_AS_HERO_BACKGROUND_ENABLED && entry.Cover && entry.Cover.Url) {
-						try {
-							const url = new URL(entry.Cover.Url);
-							const isImage =
-								isImageTypeForAstro(url.pathname) ||
-								(url.hostname.includes("unsplash") &&
-									url.searchParams.has("fm") &&
-									url.searchParams.get("fm") !== "gif");
-
-							if (isImage) {
-								const assetsPath = generateFilePath(url, true);
-								const needsAssetsDownload =
-									!LAST_BUILD_TIME ||
-									entry.LastUpdatedTimeStamp > LAST_BUILD_TIME ||
-									!fs.existsSync(assetsPath);
-
-								if (needsAssetsDownload) {
-									tasks.push(downloadFile(url, true));
-								}
-							}
-						} catch (err) {
-							console.log("Invalid Cover URL");
+			const cacheEntry = async (entry: (typeof entries)[number]) => {
+				let tasks = [];
+
+				const coverDownload = downloadCover(entry);
+				if (coverDownload) {
+					tasks.push(coverDownload);
+				}
+
+				// Download FeaturedImage if it exists
+				if (entry.FeaturedImage && entry.FeaturedImage.Url) {
+					let url;
+					try {
+						url = new URL(entry.FeaturedImage.Url);
+
+						// Check if we need to download to public/notion (for OG images)
+						const publicPath = (() => {
+							const base = generateFilePath(url, false);
+							const ext = path.extname(base).toLowerCase();
+							if ([".jpg", ".jpeg", ".png"].includes(ext)) return base;
+							// Replicate downloadFile's PNG conversion naming logic
+							const dir = path.dirname(base);
+							const name = path.parse(base).name;
+							return path.join(dir, name + ".png");
+						})();
+						const needsPublicDownload =
+							!LAST_BUILD_TIME ||
+							entry.LastUpdatedTimeStamp > LAST_BUILD_TIME ||
+							!fs.existsSync(publicPath);
+
+						if (needsPublicDownload) {
+							tasks.push(downloadFile(url, false, false, true));
 						}
-					}
 
-					// Download FeaturedImage if it exists
-					if (entry.FeaturedImage && entry.FeaturedImage.Url) {
-						let url;
-						try {
-							url = new URL(entry.FeaturedImage.Url);
-
-							// Check if we need to download to public/notion (for OG images)
-							const publicPath = (() => {
-								const base = generateFilePath(url, false);
-								const ext = path.extname(base).toLowerCase();
-								if ([".jpg", ".jpeg", ".png"].includes(ext)) return base;
-								// Replicate downloadFile's PNG conversion naming logic
-								const dir = path.dirname(base);
-								const name = path.parse(base).name;
-								return path.join(dir, name + ".png");
-							})();
-							const needsPublicDownload =
+						// For gallery view, also download to src/assets/notion for optimized images
+						if (LISTING_VIEW === "gallery") {
+							const assetsPath = generateFilePath(url, true);
+							const needsAssetsDownload =
 								!LAST_BUILD_TIME ||
 								entry.LastUpdatedTimeStamp > LAST_BUILD_TIME ||
-								!fs.existsSync(publicPath);
-
-							if (needsPublicDownload) {
-								tasks.push(downloadFile(url, false, false, true));
-							}
+								!fs.existsSync(assetsPath);
 
-							// For gallery view, also download to src/assets/notion for optimized images
-							if (LISTING_VIEW === "gallery") {
-								const assetsPath = generateFilePath(url, true);
-								const needsAssetsDownload =
-									!LAST_BUILD_TIME ||
-									entry.LastUpdatedTimeStamp > LAST_BUILD_TIME ||
-									!fs.existsSync(assetsPath);
-
-								if (needsAssetsDownload) {
-									tasks.push(downloadFile(url, true));
-								}
+							if (needsAssetsDownload) {
+								tasks.push(downloadFile(url, true));
 							}
-						} catch (err) {
-							console.log("Invalid FeaturedImage URL");
 						}
+					} catch (err) {
+						console.log("Invalid FeaturedImage URL");
 					}
+				}
 
-					// Get post content (which now handles all file downloads internally)
-					const postContentPromise = entry.IsExternal
-						? Promise.resolve({
-								interlinkedContentInPage: null,
+				// Get post content (which now handles all file downloads internally)
+				const postContentPromise = entry.IsExternal
+					? Promise.resolve({
+							interlinkedContentInPage: null,
+							entryId: entry.PageId,
+						})
+					: getPostContentByPostId(entry).then((result) => {
+							return {
+								interlinkedContentInPage: result.interlinkedContentInPage,
 								entryId: entry.PageId,
-							})
-						: getPostContentByPostId(entry).then((result) => {
-								return {
-									interlinkedContentInPage: result.interlinkedContentInPage,
-									entryId: entry.PageId,
-								};
-							});
-					tasks.push(postContentPromise);
-
-					// Wait for all tasks for this entry to complete
-					await Promise.all(tasks);
-
-					// Return only the interlinkedContentInPage
-					return postContentPromise;
-				}),
-			);
+							};
+						});
+				tasks.push(postContentPromise);
+
+				// Wait for all tasks for this entry to complete
+				await Promise.all(tasks);
+
+				// Return only the interlinkedContentInPage
+				return postContentPromise;
+			};
+
+			// A few entries at a time; Notion requests are further paced by the client's request queue
+			const ENTRY_CONCURRENCY = NOTION_REQUESTS.maxConcurrentRequests;
+			const interlinkedContentInEntries = [];
+			for (let i = 0; i < entries.length; i += ENTRY_CONCURRENCY) {
+				const chunk = entries.slice(i, i + ENTRY_CONCURRENCY);
+				interlinkedContentInEntries.push(...(await Promise.all(chunk.map(cacheEntry))));
+			}
+
+			// Sub-pages are discovered from their parents' blocks, so they can only be walked once
+			// the entries above are cached; they then join the same interlinked-content graph.
+			const subPages = await getAllSubPages();
+			const interlinkedContentInSubPages = [];
+			for (let i = 0; i < subPages.length; i += ENTRY_CONCURRENCY) {
+				const chunk = subPages.slice(i, i + ENTRY_CONCURRENCY);
+				interlinkedContentInSubPages.push(
+					...(await Promise.all(
+						chunk.map(async (subPage) => {
+							const [result] = await Promise.all([
+								getPostContentByPostId(subPage),
+								downloadCover(subPage),
+							]);
+							return {
+								interlinkedContentInPage: result.interlinkedContentInPage,
+								entryId: subPage.PageId,
+							};
+						}),
+					)),
+				);
+			}
 
 			// Once all entries are processed, call createInterlinkedContentToThisEntry
-			createInterlinkedContentToThisEntry(interlinkedContentInEntries);
+			createInterlinkedContentToThisEntry([
+				...interlinkedContentInEntries,
+				...interlinkedContentInSubPages,
+			]);
+
+			// Related posts use the interlink graph written above
+			if (RELATED_POSTS.enabled) {
+				await buildRelatedPosts();
+			}
+
+			logNotionRequestStats();
 		},
 	},
 });
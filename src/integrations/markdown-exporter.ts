@@ -17,12 +17,12 @@ import {
 	AUTHOR,
 	LAST_BUILD_TIME,
 	BIBTEX_CITATIONS_ENABLED,
-	BIBLIOGRAPHY_STYLE,
 	CITATIONS,
 	MENU_PAGES_COLLECTION,
 } from "../constants";
-import { getAllPosts, getAllPages } from "../lib/notion/client";
-import type { Post, Citation, Footnote, InterlinkedContentInPage } from "../lib/interfaces";
+import { getAllPosts, getAllPages, getAllSeries } from "../lib/notion/client";
+import { getCitationStyle } from "../lib/citations";
+import type { Post, Series, Citation, Footnote, InterlinkedContentInPage } from "../lib/interfaces";
 import { getMachineDateISOString } from "../utils/date";
 import { slugify } from "../utils/slugify";
 
@@ -49,6 +49,34 @@ const turndown = new TurndownService({
 turndown.keep(["details", "summary"]);
 turndown.use(gfm);
 
+// Equations go out as their TeX source so \label, \tag and references survive; turndown
+// would otherwise escape it and keep KaTeX's rendered markup
+turndown.addRule("block-equation", {
+	filter: (node) => node.nodeName === "DIV" && node.hasAttribute("data-equation-tex"),
+	replacement: (_content, node) =>
+		`\n\n$$\n${(node as HTMLElement).getAttribute("data-equation-tex")}\n$$\n\n`,
+});
+turndown.addRule("equation-reference", {
+	filter: (node) => node.nodeName === "SPAN" && node.hasAttribute("data-equation-ref"),
+	replacement: (_content, node) => {
+		const element = node as HTMLElement;
+		return `\\${element.getAttribute("data-equation-command")}{${element.getAttribute("data-equation-ref")}}`;
+	},
+});
+
+// Theorem-like callouts go out as fenced admonitions titled with their number; the rendered
+// heading and QED mark are dropped by shouldRemoveElement
+turndown.addRule("theorem-environment", {
+	filter: (node) => node.nodeName === "DIV" && node.hasAttribute("data-theorem"),
+	replacement: (content, node) => {
+		const element = node as HTMLElement;
+		const kind = element.getAttribute("data-theorem")!.toLowerCase().replace(/\s+/g, "-");
+		const label = element.getAttribute("data-theorem-label");
+		const attributes = label ? `{#${label}}` : "";
+		return `\n\n:::${kind}[${element.getAttribute("data-theorem-title")}]${attributes}\n${content.trim()}\n:::\n\n`;
+	},
+});
+
 const ABSOLUTE_URL_REGEX = /^https?:\/\//i;
 
 const markdownExporter = (): AstroIntegration => {
@@ -75,6 +103,11 @@ const markdownExporter = (): AstroIntegration => {
 				const entries = [...posts, ...pages];
 				const entryById = new Map(entries.map((entry) => [entry.PageId, entry]));
 				const menuLinks = buildMenuLinks(pages, posts);
+				const seriesByPageId = new Map(
+					(await getAllSeries()).flatMap((series) =>
+						series.Posts.map((part) => [part.PageId, series] as const),
+					),
+				);
 				const lastBuildTime = LAST_BUILD_TIME ? new Date(LAST_BUILD_TIME) : null;
 				const citationsSectionEnabled =
 					BIBTEX_CITATIONS_ENABLED &&
@@ -168,6 +201,8 @@ const markdownExporter = (): AstroIntegration => {
 							entry,
 							pageUrl,
 							slug,
+							series: seriesByPageId.get(entry.PageId),
+							siteUrl,
 						});
 						const frontmatter = renderYamlFrontmatter(metadata);
 						const navigationContext = await buildNavigationContextMarkdown({
@@ -266,6 +301,7 @@ function renderCitationsMarkdown(citations: Citation[]): string {
 		return "";
 	}
 
+	const style = citations[0]?.Style ?? getCitationStyle();
 	const entries = citations.map((citation, index) => {
 		const formatted = citation.FormattedEntry
 			? turndown.turndown(citation.FormattedEntry).trim()
@@ -273,7 +309,7 @@ function renderCitationsMarkdown(citations: Citation[]): string {
 		const base = formatted || citation.Key || `Citation ${index + 1}`;
 		const urlSuffix = citation.Url && !formatted.includes(citation.Url) ? ` (${citation.Url})` : "";
 
-		if (BIBLIOGRAPHY_STYLE === "simplified-ieee") {
+		if (style.Format === "numeric") {
 			return `${index + 1}. ${base}${urlSuffix}`;
 		}
 
@@ -760,10 +796,21 @@ function sanitizeNode(
 			return;
 		}
 
-		if (element.name === "details") {
+		// Collapsed code lines stay inline so the fenced code keeps every line
+		if (hasClass(element, "code-collapsed")) {
+			element.name = "span";
+		} else if (element.name === "details") {
 			normalizeDetails(element);
 		}
 
+		if (hasClass(element, "npdf")) {
+			replacePdfWithLink(element);
+		}
+
+		if (hasClass(element, "code-graphviz")) {
+			replaceGraphvizWithSource(element);
+		}
+
 		if (isFootnoteMarker(element)) {
 			const marker = extractFootnoteRef(element);
 			if (marker) {
@@ -799,7 +846,13 @@ function shouldRemoveElement(element: ElementNode): boolean {
 	if (
 		classList.includes("sr-only") ||
 		classList.includes("popoverEl") ||
-		classList.includes("copy-markdown-trigger")
+		classList.includes("copy-markdown-trigger") ||
+		classList.includes("code-line-number") ||
+		classList.includes("code-collapsed-summary") ||
+		classList.includes("code-group-tabs") ||
+		classList.includes("theorem-head") ||
+		classList.includes("theorem-qed") ||
+		classList.includes("mention-user-avatar")
 	) {
 		return true;
 	}
@@ -901,10 +954,14 @@ function buildMarkdownMetadata({
 	entry,
 	pageUrl,
 	slug,
+	series,
+	siteUrl,
 }: {
 	entry: Post;
 	pageUrl: string;
 	slug: string;
+	series: Series | undefined;
+	siteUrl: string;
 }): Record<string, unknown> {
 	const normalizedSlug = slug || HOME_PAGE_SLUG;
 	const tags = (entry.Tags || []).map((tag) => tag.name).filter(Boolean);
@@ -932,6 +989,14 @@ function buildMarkdownMetadata({
 		excerpt: entry.Excerpt || undefined,
 		author: authors,
 		external_url: entry.ExternalUrl || undefined,
+		series: series
+			? {
+					name: series.Name,
+					part: series.Posts.findIndex((part) => part.PageId === entry.PageId) + 1,
+					of: series.Posts.length,
+					url: new URL(path.posix.join("series", `${series.Slug}/`), siteUrl).toString(),
+				}
+			: undefined,
 	};
 }
 
@@ -1070,6 +1135,36 @@ function normalizeDetails(element: ElementNode) {
 	element.children.unshift(summaryParagraph);
 }
 
+// The inline viewer and download card collapse to a single link (plus caption) in markdown.
+function replacePdfWithLink(element: ElementNode) {
+	const src = element.attribs?.["data-pdf-src"];
+	if (!src) return;
+	const name = element.attribs?.["data-pdf-name"] || src;
+	const caption = DomUtils.findOne((child) => hasClass(child, "caption"), element.children, true);
+
+	const link = createElement("a", [createTextNode(name)], { href: src });
+	const paragraph = createElement("p", [createTextNode("PDF: "), link]);
+	element.children = caption ? [paragraph, caption] : [paragraph];
+	for (const child of element.children) {
+		child.parent = element;
+	}
+}
+
+// Diagrams drawn at build time go back to their DOT source as a fenced code block.
+function replaceGraphvizWithSource(element: ElementNode) {
+	const source = element.attribs?.["data-graphviz-source"];
+	if (!source) return;
+	const caption = DomUtils.findOne((child) => hasClass(child, "caption"), element.children, true);
+
+	const pre = createElement("pre", [
+		createElement("code", [createTextNode(source)], { class: "language-dot" }),
+	]);
+	element.children = caption ? [pre, caption] : [pre];
+	for (const child of element.children) {
+		child.parent = element;
+	}
+}
+
 function createElement(
 	name: string,
 	children: AnyNode[] = [],
@@ -15,278 +15,338 @@ const rssContentEnhancer = (): AstroIntegration => {
 		hooks: {
 			"astro:build:done": async () => {
 				const distDir = "dist";
-				const tempDir = BUILD_FOLDER_PATHS["rssCache"];
-				const rssPath = path.join(distDir, "rss.xml");
+				// The site feed, plus one per language on multilingual sites
+				const rssPaths = [path.join(distDir, "rss.xml")];
+				try {
+					for (const lang of await fs.readdir(path.join(distDir, "lang"))) {
+						const langRssPath = path.join(distDir, "lang", lang, "rss.xml");
+						try {
+							await fs.access(langRssPath);
+							rssPaths.push(langRssPath);
+						} catch {
+							// not a language listing
+						}
+					}
+				} catch {
+					// no per-language pages
+				}
 
-				// Read and parse RSS XML
-				const rssContent = await fs.readFile(rssPath, "utf-8");
+				for (const rssPath of rssPaths) {
+					await enhanceRssFeed(distDir, rssPath);
+				}
+			},
+		},
+	};
+};
 
-				const parserOptions = {
-					ignoreAttributes: false,
-					attributeNamePrefix: "",
-					textNodeName: "#text",
-					arrayMode: false, // Do not wrap elements in arrays
-				};
+export default rssContentEnhancer;
 
-				const parser = new XMLParser(parserOptions);
-				const rssData = parser.parse(rssContent);
-
-				// Extract base URL from channel link
-				const baseUrl = rssData.rss.channel.link.replace(/\/$/, ""); // Remove trailing slash if present
-
-				// Ensure items are in an array
-				const items = Array.isArray(rssData.rss.channel.item)
-					? rssData.rss.channel.item
-					: [rssData.rss.channel.item];
-
-				// Process each item
-				for (const item of items) {
-					const segments = item.link.split("/").filter(Boolean);
-					const encodedSlug = segments.pop();
-					const slug = decodeURIComponent(encodedSlug);
-					const htmlPath = path.join(distDir, "posts", slug, "index.html");
-
-					let htmlContent: string;
-					try {
-						htmlContent = await fs.readFile(htmlPath, "utf-8");
-					} catch (error: any) {
-						if (error?.code === "ENOENT") {
-							// External or skipped entry, nothing was rendered
-							continue;
-						}
-						throw error;
-					}
+async function enhanceRssFeed(distDir: string, rssPath: string) {
+	const tempDir = BUILD_FOLDER_PATHS["rssCache"];
 
-					try {
-						const lastUpdated = item.lastUpdatedTimestamp;
-						if (!lastUpdated) {
-							continue;
-						}
+	// Read and parse RSS XML
+	const rssContent = await fs.readFile(rssPath, "utf-8");
 
-						const cachePath = path.join(tempDir, `${slug}.html`);
+	const parserOptions = {
+		ignoreAttributes: false,
+		attributeNamePrefix: "",
+		textNodeName: "#text",
+		arrayMode: false, // Do not wrap elements in arrays
+	};
 
-						// Check cache
-						let shouldUpdate = true;
+	const parser = new XMLParser(parserOptions);
+	const rssData = parser.parse(rssContent);
+
+	// Extract base URL from channel link
+	const baseUrl = rssData.rss.channel.link.replace(/\/$/, ""); // Remove trailing slash if present
+
+	// Ensure items are in an array
+	const items = Array.isArray(rssData.rss.channel.item)
+		? rssData.rss.channel.item
+		: [rssData.rss.channel.item];
+
+	// Process each item
+	for (const item of items) {
+		const segments = item.link.split("/").filter(Boolean);
+		const encodedSlug = segments.pop();
+		const slug = decodeURIComponent(encodedSlug);
+		const htmlPath = path.join(distDir, "posts", slug, "index.html");
+
+		let htmlContent: string;
+		try {
+			htmlContent = await fs.readFile(htmlPath, "utf-8");
+		} catch (error: any) {
+			if (error?.code === "ENOENT") {
+				// External or skipped entry, nothing was rendered
+				continue;
+			}
+			throw error;
+		}
 
-						// Check if cache exists
-						try {
-							await fs.access(cachePath);
+		try {
+			const lastUpdated = item.lastUpdatedTimestamp;
+			if (!lastUpdated) {
+				continue;
+			}
 
-							// If cache exists and LAST_BUILD_TIME exists, use it to determine if we need to update
-							if (LAST_BUILD_TIME) {
-								const lastBuildTime = new Date(LAST_BUILD_TIME);
-								shouldUpdate = new Date(lastUpdated) > lastBuildTime;
-							}
-						} catch {
-							// Cache doesn't exist, need to sanitize
-							shouldUpdate = true;
-						}
+			const cachePath = path.join(tempDir, `${slug}.html`);
 
-						if (shouldUpdate) {
-							// Parse the HTML content
-							const document = parseDocument(htmlContent);
+			// Check cache
+			let shouldUpdate = true;
 
-							// Find the <main> element
-							const mainElement = DomUtils.findOne(
-								(elem) => elem.type === "tag" && elem.name === "main",
-								document.children,
-								true,
-							);
+			// Check if cache exists
+			try {
+				await fs.access(cachePath);
 
-							if (mainElement) {
-								const mainContent = render(mainElement.children);
-
-								// Sanitize HTML and fix image paths
-								const cleanContent = sanitizeHtml(mainContent, {
-									allowedTags: [
-										// Document sections
-										"address",
-										"article",
-										"aside",
-										"footer",
-										"header",
-										"h1",
-										"h2",
-										"h3",
-										"h4",
-										"h5",
-										"h6",
-										"hgroup",
-										"main",
-										"nav",
-										"section",
-
-										// Block text content
-										"blockquote",
-										"dd",
-										"div",
-										"dl",
-										"dt",
-										"figcaption",
-										"figure",
-										"hr",
-										"li",
-										"main",
-										"ol",
-										"p",
-										"pre",
-										"ul",
-										"details",
-										"summary",
-
-										// Inline text
-										"a",
-										"abbr",
-										"b",
-										"bdi",
-										"bdo",
-										"br",
-										"cite",
-										"code",
-										"data",
-										"dfn",
-										"em",
-										"i",
-										"kbd",
-										"mark",
-										"q",
-										"rb",
-										"rp",
-										"rt",
-										"rtc",
-										"ruby",
-										"s",
-										"samp",
-										"small",
-										"span",
-										"strong",
-										"sub",
-										"sup",
-										"time",
-										"u",
-										"var",
-										"wbr",
-
-										// Table content
-										"caption",
-										"col",
-										"colgroup",
-										"table",
-										"tbody",
-										"td",
-										"tfoot",
-										"th",
-										"thead",
-										"tr",
-
-										// Media
-										"img",
-										// 'iframe'
-									],
-									allowedAttributes: {
-										a: ["href", "title", "target"],
-										img: ["src", "alt", "title"],
-										td: ["align", "valign"],
-										th: ["align", "valign", "colspan", "rowspan", "scope"],
-										// iframe: ['src'],
-										pre: ["data-language"],
-									},
-									disallowedTagsMode: "discard",
-									nonTextTags: ["style", "script", "textarea", "option", "noscript", "template"],
-									exclusiveFilter: function (frame) {
-										return (
-											frame.attribs?.class?.includes("no-rss") ||
-											frame.attribs?.class?.includes("sr-only") ||
-											(frame.attribs?.["data-popover-target"] &&
-												frame.attribs?.["data-href"]?.startsWith("#")) ||
-											(frame.tag === "strong" &&
-												frame.text.trim().toLowerCase() === "table of contents") ||
-											frame.tag === "h1" ||
-											// Only remove spans that are completely empty (no text at all)
-											// Keep spans with whitespace for proper spacing
-											(frame.tag === "span" && !frame.text) ||
-											(frame.tag === "p" && !frame.text.trim())
-										);
-									},
-									transformTags: {
-										details: (_tagName, attribs) => ({
-											tagName: "div",
-											attribs: attribs,
-										}),
-										summary: (_tagName, attribs) => ({
-											tagName: "div",
-											attribs: attribs,
-										}),
-										a: (tagName, attribs) => {
-											// Add base URL to relative URLs
-											if (attribs.href?.startsWith("/")) {
-												return {
-													tagName,
-													attribs: {
-														...attribs,
-														href: `${baseUrl}${attribs.href}`,
-													},
-												};
-											}
-											return { tagName, attribs };
-										},
-										span: (tagName, attribs) => {
-											if (attribs["data-popover-target"]) {
-												const href = attribs["data-href"];
-												if (href?.startsWith("/")) {
-													return {
-														tagName: "a",
-														attribs: {
-															...attribs,
-															href: `${baseUrl}${href}`,
-														},
-													};
-												}
-											}
-											return { tagName, attribs };
+				// If cache exists and LAST_BUILD_TIME exists, use it to determine if we need to update
+				if (LAST_BUILD_TIME) {
+					const lastBuildTime = new Date(LAST_BUILD_TIME);
+					shouldUpdate = new Date(lastUpdated) > lastBuildTime;
+				}
+			} catch {
+				// Cache doesn't exist, need to sanitize
+				shouldUpdate = true;
+			}
+
+			if (shouldUpdate) {
+				// Parse the HTML content
+				const document = parseDocument(htmlContent);
+
+				// Find the <main> element
+				const mainElement = DomUtils.findOne(
+					(elem) => elem.type === "tag" && elem.name === "main",
+					document.children,
+					true,
+				);
+
+				if (mainElement) {
+					const mainContent = render(mainElement.children);
+
+					// Sanitize HTML and fix image paths
+					const cleanContent = sanitizeHtml(mainContent, {
+						allowedTags: [
+							// Document sections
+							"address",
+							"article",
+							"aside",
+							"footer",
+							"header",
+							"h1",
+							"h2",
+							"h3",
+							"h4",
+							"h5",
+							"h6",
+							"hgroup",
+							"main",
+							"nav",
+							"section",
+
+							// Block text content
+							"blockquote",
+							"dd",
+							"div",
+							"dl",
+							"dt",
+							"figcaption",
+							"figure",
+							"hr",
+							"li",
+							"main",
+							"ol",
+							"p",
+							"pre",
+							"ul",
+							"details",
+							"summary",
+
+							// Inline text
+							"a",
+							"abbr",
+							"b",
+							"bdi",
+							"bdo",
+							"br",
+							"cite",
+							"code",
+							"data",
+							"dfn",
+							"em",
+							"i",
+							"kbd",
+							"mark",
+							"q",
+							"rb",
+							"rp",
+							"rt",
+							"rtc",
+							"ruby",
+							"s",
+							"samp",
+							"small",
+							"span",
+							"strong",
+							"sub",
+							"sup",
+							"time",
+							"u",
+							"var",
+							"wbr",
+
+							// Table content
+							"caption",
+							"col",
+							"colgroup",
+							"table",
+							"tbody",
+							"td",
+							"tfoot",
+							"th",
+							"thead",
+							"tr",
+
+							// Media
+							"img",
+							// Build-time diagrams (Graphviz)
+							"svg",
+							"g",
+							"path",
+							"polygon",
+							"polyline",
+							"ellipse",
+							"circle",
+							"rect",
+							"line",
+							"text",
+							// 'iframe'
+						],
+						allowedAttributes: {
+							a: ["href", "title", "target"],
+							img: ["src", "alt", "title"],
+							td: ["align", "valign"],
+							th: ["align", "valign", "colspan", "rowspan", "scope"],
+							// iframe: ['src'],
+							pre: ["data-language"],
+							// The parser lowercases attribute names; feed readers restore viewBox in SVG
+							svg: ["width", "height", "viewbox", "xmlns", "data-graphviz"],
+							g: ["transform", "fill", "stroke"],
+							path: ["d", "fill", "stroke", "stroke-width", "stroke-dasharray"],
+							polygon: ["points", "fill", "stroke", "stroke-width"],
+							polyline: ["points", "fill", "stroke", "stroke-width"],
+							ellipse: ["cx", "cy", "rx", "ry", "fill", "stroke", "stroke-width"],
+							circle: ["cx", "cy", "r", "fill", "stroke"],
+							rect: ["x", "y", "width", "height", "fill", "stroke"],
+							line: ["x1", "y1", "x2", "y2", "stroke"],
+							text: [
+								"x",
+								"y",
+								"text-anchor",
+								"font-family",
+								"font-size",
+								"font-weight",
+								"font-style",
+								"fill",
+							],
+						},
+						disallowedTagsMode: "discard",
+						nonTextTags: ["style", "script", "textarea", "option", "noscript", "template", "title"],
+						exclusiveFilter: function (frame) {
+							return (
+								frame.attribs?.class?.includes("no-rss") ||
+								frame.attribs?.class?.includes("sr-only") ||
+								(frame.attribs?.["data-popover-target"] &&
+									frame.attribs?.["data-href"]?.startsWith("#")) ||
+								(frame.tag === "strong" &&
+									frame.text.trim().toLowerCase() === "table of contents") ||
+								frame.tag === "h1" ||
+								// Icons stay out of feeds; only build-time diagrams keep their SVG
+								(frame.tag === "svg" && !frame.attribs?.["data-graphviz"]) ||
+								// Only remove spans that are completely empty (no text at all)
+								// Keep spans with whitespace for proper spacing
+								(frame.tag === "span" && !frame.text) ||
+								(frame.tag === "p" && !frame.text.trim())
+							);
+						},
+						transformTags: {
+							details: (_tagName, attribs) => ({
+								// Collapsed code lines stay inline inside their <pre>
+								tagName: attribs.class?.includes("code-collapsed") ? "span" : "div",
+								attribs: attribs,
+							}),
+							summary: (_tagName, attribs) => ({
+								tagName: "div",
+								attribs: attribs,
+							}),
+							a: (tagName, attribs) => {
+								// Add base URL to relative URLs
+								if (attribs.href?.startsWith("/")) {
+									return {
+										tagName,
+										attribs: {
+											...attribs,
+											href: `${baseUrl}${attribs.href}`,
 										},
-										img: (tagName, attribs) => {
-											if (attribs.class?.includes("no-rss")) {
-												return false as any;
-											}
-											if (attribs.src?.startsWith("/")) {
-												return {
-													tagName,
-													attribs: {
-														...attribs,
-														src: `${baseUrl}${attribs.src}`,
-													},
-												};
-											}
-											return { tagName, attribs };
+									};
+								}
+								return { tagName, attribs };
+							},
+							span: (tagName, attribs) => {
+								if (attribs["data-popover-target"]) {
+									const href = attribs["data-href"];
+									if (href?.startsWith("/")) {
+										return {
+											tagName: "a",
+											attribs: {
+												...attribs,
+												href: `${baseUrl}${href}`,
+											},
+										};
+									}
+								}
+								return { tagName, attribs };
+							},
+							img: (tagName, attribs) => {
+								if (attribs.class?.includes("no-rss")) {
+									return false as any;
+								}
+								if (attribs.src?.startsWith("/")) {
+									return {
+										tagName,
+										attribs: {
+											...attribs,
+											src: `${baseUrl}${attribs.src}`,
 										},
-									},
-								});
+									};
+								}
+								return { tagName, attribs };
+							},
+						},
+					});
 
-								// Parse the cleaned content
-								const cleanContentDom = parseDocument(cleanContent);
+					// Parse the cleaned content
+					const cleanContentDom = parseDocument(cleanContent);
 
-								const root = { type: "root", children: cleanContentDom.children };
+					const root = { type: "root", children: cleanContentDom.children };
 
-								// Perform cleanup on interlinked content
-								cleanupInterlinkedContentDom(root);
+					// Perform cleanup on interlinked content
+					cleanupInterlinkedContentDom(root);
 
-								// Remove empty elements
-								removeEmptyElementsFromDom(root);
+					// Remove empty elements
+					removeEmptyElementsFromDom(root);
 
-								// Fix footnotes for RSS: strip markers and normalize spacing
-								fixFootnotesForRss(root);
+					// Fix footnotes for RSS: strip markers and normalize spacing
+					fixFootnotesForRss(root);
 
-								// Serialize back to HTML
-								let cleanContentFinal = render(cleanContentDom.children);
-								cleanContentFinal = cleanContentFinal.replace(/^\s*<div>\s*<article[^>]*>/i, "");
-								cleanContentFinal = cleanContentFinal.replace(
-									/<\/article>\s*<\/div>\s*<div><\/div>\s*$/i,
-									"",
-								);
+					// Serialize back to HTML
+					let cleanContentFinal = render(cleanContentDom.children);
+					cleanContentFinal = cleanContentFinal.replace(/^\s*<div>\s*<article[^>]*>/i, "");
+					cleanContentFinal = cleanContentFinal.replace(
+						/<\/article>\s*<\/div>\s*<div><\/div>\s*$/i,
+						"",
+					);
 
-								// Add a note inside the first <div> tag
-								const note = `
+					// Add a note inside the first <div> tag
+					const note = `
                     <p>
                         <em>Note:</em> This RSS feed strips out SVGs and embeds. You might want to read the post on the webpage
                         <a href="${item.link}" target="_blank">here</a>.
@@ -294,94 +354,89 @@ const rssContentEnhancer = (): AstroIntegration => {
                     <hr>
                 `;
 
-								cleanContentFinal = cleanContentFinal.replace(/^\s*<div>/, `<div>${note}`);
+					cleanContentFinal = cleanContentFinal.replace(/^\s*<div>/, `<div>${note}`);
 
-								// Cache the cleaned content
-								await fs.writeFile(cachePath, cleanContentFinal);
+					// Cache the cleaned content
+					await fs.writeFile(cachePath, cleanContentFinal);
 
-								// Add content tag to RSS item
-								item.content = cleanContentFinal;
+					// Add content tag to RSS item
+					item.content = cleanContentFinal;
 
-								// If description is empty, generate from content
-								if (!item.description?.trim()) {
-									const plainText = DomUtils.textContent(cleanContentDom).trim();
-									item.description =
-										plainText.slice(0, 150) + (plainText.length > 150 ? "..." : "");
-								}
-							}
-						} else {
-							// Use cached version
-							const cachedContent = await fs.readFile(cachePath, "utf-8");
-							item.content = cachedContent;
-
-							// If description is empty, generate from cached content
-							if (!item.description?.trim()) {
-								const cleanContentDom = parseDocument(cachedContent);
-								const plainText = DomUtils.textContent(cleanContentDom).trim();
-								item.description = plainText.slice(0, 150) + (plainText.length > 150 ? "..." : "");
-							}
-						}
-					} catch (error) {
-						console.error(`Error processing ${slug}:`, error);
+					// If description is empty, generate from content
+					if (!item.description?.trim()) {
+						const plainText = DomUtils.textContent(cleanContentDom).trim();
+						item.description = plainText.slice(0, 150) + (plainText.length > 150 ? "..." : "");
 					}
 				}
+			} else {
+				// Use cached version
+				const cachedContent = await fs.readFile(cachePath, "utf-8");
+				item.content = cachedContent;
+
+				// If description is empty, generate from cached content
+				if (!item.description?.trim()) {
+					const cleanContentDom = parseDocument(cachedContent);
+					const plainText = DomUtils.textContent(cleanContentDom).trim();
+					item.description = plainText.slice(0, 150) + (plainText.length > 150 ? "..." : "");
+				}
+			}
+		} catch (error) {
+			console.error(`Error processing ${slug}:`, error);
+		}
+	}
 
-				// Update the items back to the channel
-				// Build the RSS object
-				const rssObject = {
-					rss: {
-						"@version": "2.0",
-						channel: {
-							title: rssData.rss.channel.title,
-							description: rssData.rss.channel.description,
-							link: rssData.rss.channel.link,
-							lastBuildDate: rssData.rss.channel.lastBuildDate,
-							...(rssData.rss.channel.author && { author: rssData.rss.channel.author }),
-							item: items.map((item: any) => ({
-								title: item.title,
-								link: item.link,
-								guid: {
-									"@isPermaLink": "true",
-									"#": item.link,
-								},
-								description: item.description,
-								pubDate: item.pubDate,
-								lastUpdatedTimestamp: item.lastUpdatedTimestamp,
-								...(item.category && {
-									category: Array.isArray(item.category) ? item.category : [item.category],
-								}),
-								...(item.content && { content: item.content }),
-							})),
-						},
+	// Update the items back to the channel
+	// Build the RSS object
+	const rssObject = {
+		rss: {
+			"@version": "2.0",
+			channel: {
+				title: rssData.rss.channel.title,
+				description: rssData.rss.channel.description,
+				link: rssData.rss.channel.link,
+				lastBuildDate: rssData.rss.channel.lastBuildDate,
+				...(rssData.rss.channel.language && { language: rssData.rss.channel.language }),
+				...(rssData.rss.channel.author && { author: rssData.rss.channel.author }),
+				item: items.map((item: any) => ({
+					title: item.title,
+					link: item.link,
+					guid: {
+						"@isPermaLink": "true",
+						"#": item.link,
 					},
-				};
-
-				// Build and save the updated RSS
-				const builderOptions = {
-					ignoreAttributes: false,
-					format: true,
-					suppressEmptyNode: true,
-					suppressBooleanAttributes: false,
-					attributeNamePrefix: "@",
-					parseTagValue: false,
-					textNodeName: "#",
-				};
-
-				const builder = new XMLBuilder(builderOptions);
-				const updatedRss = builder.build(rssObject);
-
-				// Add XML declaration and stylesheet
-				const xmlDeclaration = '<?xml version="1.0" encoding="UTF-8"?>\n';
-				const styleSheet = `<?xml-stylesheet href="${path.join(BASE_PATH, "/rss-styles.xsl")}" type="text/xsl"?>\n`;
-				const finalXml = xmlDeclaration + styleSheet + updatedRss;
-
-				await fs.writeFile(rssPath, finalXml);
+					description: item.description,
+					pubDate: item.pubDate,
+					lastUpdatedTimestamp: item.lastUpdatedTimestamp,
+					...(item.category && {
+						category: Array.isArray(item.category) ? item.category : [item.category],
+					}),
+					...(item.content && { content: item.content }),
+				})),
 			},
 		},
 	};
-};
 
-export default rssContentEnhancer;
+	// Build and save the updated RSS
+	const builderOptions = {
+		ignoreAttributes: false,
+		format: true,
+		suppressEmptyNode: true,
+		suppressBooleanAttributes: false,
+		attributeNamePrefix: "@",
+		parseTagValue: false,
+		textNodeName: "#",
+	};
+
+	const builder = new XMLBuilder(builderOptions);
+	const updatedRss = builder.build(rssObject);
+
+	// Add XML declaration and stylesheet
+	const xmlDeclaration = '<?xml version="1.0" encoding="UTF-8"?>\n';
+	const styleSheet = `<?xml-stylesheet href="${path.join(BASE_PATH, "/rss-styles.xsl")}" type="text/xsl"?>\n`;
+	const finalXml = xmlDeclaration + styleSheet + updatedRss;
+
+	await fs.writeFile(rssPath, finalXml);
+}
 
 // Helper functions
 
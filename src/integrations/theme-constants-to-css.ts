@@ -364,6 +364,15 @@ ${createCssVariables("dark")}
     @apply underline decoration-wavy decoration-from-font decoration-accent-2/40 hover:decoration-accent-2/60 underline-offset-2;
   }
 
+  .mention-user,
+  .mention-database {
+    @apply inline-flex items-baseline gap-0.5 rounded bg-accent-2/5 px-1;
+  }
+
+  .mention-user-avatar {
+    @apply inline h-4 w-4 self-center rounded-full object-cover;
+  }
+
   .title {
     @apply text-3xl font-bold text-accent-2;
   }
@@ -479,6 +488,31 @@ ${createCssVariables("dark")}
     }
   }
 
+  /* Child database */
+  .ndatabase {
+    @apply my-2;
+  }
+
+  .ndatabase-title {
+    @apply mb-2 text-sm font-semibold text-textColor/80;
+  }
+
+  .ndatabase-list {
+    @apply divide-y divide-gray-200/90 dark:divide-gray-700/90 text-sm;
+  }
+
+  .ndatabase-list-item {
+    @apply flex flex-wrap items-baseline justify-between gap-x-4 py-2;
+  }
+
+  .ndatabase-list-title {
+    @apply inline-flex items-baseline gap-1.5 font-medium;
+  }
+
+  .ndatabase-list-summary {
+    @apply text-xs text-textColor/60;
+  }
+
   /* Bookmark */
   .bookmark {
     @apply pb-2;
@@ -578,6 +612,94 @@ ${createCssVariables("dark")}
     transition-delay: 110ms;
   }
 
+  /* Framed code (expressive-code shortcode) */
+  .code-framed {
+    @apply overflow-hidden rounded-md border border-gray-500/30;
+  }
+
+  .code-framed pre {
+    @apply rounded-none;
+  }
+
+  .code-frame-header {
+    @apply flex min-h-10 items-center gap-2 border-b border-gray-500/30 bg-gray-500/10 ps-3 pe-10 font-mono text-xs;
+  }
+
+  .code-frame-title {
+    @apply truncate;
+  }
+
+  .code-frame-terminal .code-frame-title {
+    @apply mx-auto;
+  }
+
+  .code-frame-dots {
+    @apply flex shrink-0 gap-1.5;
+  }
+
+  .code-frame-dots span {
+    @apply h-2.5 w-2.5 rounded-full bg-gray-500/40;
+  }
+
+  .code-wrap-toggle {
+    @apply ms-auto cursor-pointer rounded p-1 text-gray-500 transition-colors hover:text-accent print:hidden;
+  }
+
+  .code-frame-terminal .code-frame-title + .code-wrap-toggle {
+    @apply ms-0;
+  }
+
+  .code-wrap-toggle[aria-pressed="true"] {
+    @apply text-accent;
+  }
+
+  .code-wrap pre,
+  .code-wrap pre code {
+    @apply whitespace-pre-wrap break-words;
+  }
+
+  .code-wrap pre .line {
+    @apply w-auto!;
+  }
+
+  pre.has-line-numbers .code-line-number {
+    @apply me-4 inline-block min-w-[2ch] text-right text-gray-500 select-none;
+  }
+
+  .code-collapsed {
+    @apply block;
+  }
+
+  .code-collapsed-summary {
+    @apply cursor-pointer text-gray-500 select-none hover:text-accent print:hidden;
+  }
+
+  /* Graphviz diagrams: Graphviz's default black and white follow the theme colours */
+  .code-graphviz {
+    @apply my-2 w-full max-w-full;
+  }
+
+  .graphviz-diagram {
+    @apply flex justify-center overflow-x-auto;
+  }
+
+  .graphviz-diagram svg {
+    @apply h-auto max-w-full;
+  }
+
+  .graphviz-diagram svg [stroke="black"] {
+    stroke: var(--color-textColor);
+  }
+
+  .graphviz-diagram svg [fill="black"],
+  .graphviz-diagram svg text:not([fill]) {
+    fill: var(--color-textColor);
+  }
+
+  .graphviz-diagram svg [fill="white"] {
+    fill: var(--color-bgColor);
+  }
+
   /* Quote */
   .nquote {
     @apply my-4 border-s-4 border-gray-600 px-2! dark:border-gray-300;
@@ -604,6 +726,31 @@ ${createCssVariables("dark")}
     @apply mt-0;
   }
 
+  /* Theorem */
+  .theorem {
+    @apply border-accent/40 mx-auto my-4 w-full max-w-full border-s-2 ps-4 leading-6;
+  }
+
+  .theorem-head {
+    @apply me-1 font-semibold;
+  }
+
+  .theorem-title {
+    @apply text-textColor no-underline hover:underline;
+  }
+
+  .theorem-name {
+    @apply ms-1 font-normal;
+  }
+
+  .theorem-unnumbered .theorem-head {
+    @apply font-normal italic;
+  }
+
+  .theorem-qed {
+    @apply text-textColor/70 block text-end leading-none;
+  }
+
   .notion-popover {
     @apply border-accent-2/20 bg-popover-bg/95 text-textColor/80 invisible absolute z-40 inline-block max-h-[min(22rem,60vh)] w-72 overflow-y-auto overscroll-contain rounded-lg border text-sm opacity-0 shadow-xs backdrop-blur-sm transition-[opacity,transform] duration-200;
     transform: translateY(-4px) scale(0.98);
@@ -656,6 +803,14 @@ ${createCssVariables("dark")}
     @apply text-quote cursor-pointer font-mono text-xs;
   }
 
+  .citation-marker-sup {
+    @apply align-super text-[0.7em];
+  }
+
+  .citation-locator {
+    @apply text-textColor/70 ms-1;
+  }
+
   .view-all-link {
     @apply sm:hover:text-accent inline-flex items-center gap-1 transition-colors duration-150 ease-out;
   }
@@ -839,6 +994,15 @@ ${createCssVariables("dark")}
     display: none;
   }
 
+  /* Code group: the tab label is repeated as a heading for feeds and markdown */
+  .code-group .notion-tab-panel {
+    @apply px-3 pb-3 pt-0;
+  }
+
+  .code-group-label {
+    @apply hidden;
+  }
+
   @media print {
     .notion-tab-block {
       @apply overflow-visible border-0 bg-transparent;
@@ -859,6 +1023,10 @@ ${createCssVariables("dark")}
       font-weight: 600;
     }
 
+    .code-group .notion-tab-print-label::before {
+      content: none;
+    }
+
     .notion-tab-panel,
     .notion-tab-panel[hidden] {
       @apply block! px-0 pb-4 pt-0;
@@ -942,6 +1110,31 @@ ${createCssVariables("dark")}
     @apply decoration-accent-2/20 hover:decoration-accent/40 ml-2 inline-flex max-w-full items-center justify-center text-sm underline decoration-wavy hidden sm:inline;
   }
 
+  /* PDF */
+  .npdf {
+    @apply my-2;
+  }
+
+  .npdf-viewer object {
+    @apply h-[70vh] max-h-[900px] w-full rounded-lg border border-accent-2/20;
+  }
+
+  .npdf-card {
+    @apply mt-2 flex flex-wrap items-center gap-2 text-sm;
+  }
+
+  .npdf-card-name {
+    @apply min-w-0 break-all font-medium;
+  }
+
+  .npdf-card-size {
+    @apply text-xs text-textColor/60;
+  }
+
+  .npdf-print-url {
+    @apply break-all text-xs;
+  }
+
   /* TOC */
   .toc-container {
     @apply fixed top-auto right-4 ${tocContainerBottom} z-10 block sm:top-40 sm:bottom-auto print:hidden;
@@ -963,6 +1156,14 @@ ${createCssVariables("dark")}
     @apply h-[2px] rounded-full transition-colors duration-200;
   }
 
+  .list-of-figures {
+    @apply border-accent/10 mt-2 border-t pt-2 first:mt-0 first:border-t-0 first:pt-0;
+  }
+
+  .list-of-figures-title {
+    @apply text-textColor/60 px-2 py-1 text-xs font-semibold tracking-wide uppercase;
+  }
+
   .bottom-toc-button {
     @apply fixed end-4 ${bottomTocButtonBottom} z-30 flex h-10 w-10 cursor-pointer items-center justify-center rounded-full border text-3xl transition-[color,background-color,border-color,transform,opacity] duration-200 ease-out active:scale-[0.94] sm:hidden print:hidden;
   }
@@ -1264,17 +1465,20 @@ ${createCssVariables("dark")}
     @apply inline;
   }
 
-  /* CSS counter for IEEE style numbering */
-  .bibliography-ieee {
+  /* CSS counter for IEEE style numbering, and note numbers for note styles */
+  .bibliography-ieee,
+  .bibliography-note {
     counter-reset: citation-counter;
   }
 
-  .bibliography-ieee li {
+  .bibliography-ieee li,
+  .bibliography-note li {
     @apply flex items-baseline;
     counter-increment: citation-counter;
   }
 
-  .bibliography-ieee li::before {
+  .bibliography-ieee li::before,
+  .bibliography-note li::before {
     content: "[" counter(citation-counter) "] ";
     font-weight: 400;
     margin-right: 0.5rem;
@@ -1282,6 +1486,10 @@ ${createCssVariables("dark")}
     flex-shrink: 0;
   }
 
+  .bibliography-note li::before {
+    content: counter(citation-counter) ". ";
+  }
+
   /* Footnotes Internal */
   .footnote-list {
     @apply list-none;
@@ -1312,6 +1520,46 @@ ${createCssVariables("dark")}
   .citation-backlinks {
     @apply ml-1;
   }
+  .citation-locators {
+    @apply text-textColor/70 ml-1;
+  }
+
+  /* Site-wide bibliography page */
+  .site-bibliography-filters {
+    @apply mb-6 flex flex-wrap items-center gap-4 text-sm;
+  }
+  .site-bibliography-filters select {
+    @apply border-textColor/20 bg-bgColor ms-2 rounded-sm border px-2 py-1;
+  }
+  .site-bibliography-count {
+    @apply text-textColor/70;
+  }
+  .site-bibliography-entry {
+    @apply mb-4 scroll-mt-8 rounded-sm ps-6 -indent-6;
+  }
+  .site-bibliography-entry:target {
+    @apply bg-accent/10;
+  }
+  .site-bibliography-permalink {
+    @apply text-textColor/50 hover:text-accent ms-1 no-underline;
+  }
+  .site-bibliography-cited-in {
+    @apply text-textColor/70 mt-1 indent-0 text-sm;
+  }
+  .site-bibliography-anchors a {
+    @apply text-link ms-1 align-super text-xs;
+  }
+
+  /* Cite this page: entries and downloads in the format tabs */
+  .cite-this-page-code {
+    @apply overflow-x-auto rounded-sm bg-gray-100 p-4 font-mono text-sm dark:bg-gray-800;
+  }
+  .cite-this-page-formatted {
+    @apply rounded-sm bg-gray-100 p-4 pe-10 text-sm dark:bg-gray-800;
+  }
+  .cite-this-page-download {
+    @apply text-link mt-2 inline-flex items-center gap-1.5 text-sm print:hidden;
+  }
 
   /* Header */
   .site-header {
@@ -1430,11 +1678,31 @@ ${createCssVariables("dark")}
     @apply max-w-full overflow-x-auto overscroll-none text-center;
   }
 
+  .equation-numbered {
+    @apply flex items-center gap-4;
+  }
+
+  .equation-numbered .equation-math {
+    @apply min-w-0 flex-1;
+  }
+
+  .equation-number {
+    @apply shrink-0 text-textColor/70;
+  }
+
   /* Caption */
   .caption {
     @apply text-textColor/70 min-w-0 pt-1 text-sm;
   }
 
+  .caption-number {
+    @apply text-textColor/90 font-semibold;
+  }
+
+  .table-caption {
+    @apply sticky left-0 pt-0 pb-1;
+  }
+
   /* Search */
   .search-btn {
     @apply hover:text-accent active:scale-[0.94] flex h-10 w-10 cursor-pointer items-center justify-center rounded-md transition-[color,transform] duration-150 ease-out;
@@ -2971,6 +3239,126 @@ html.dark :not(.datatable-ascending):not(.datatable-descending)>.datatable-sorte
   @apply text-textColor/60 hover:text-accent text-[10px] transition-colors;
 }
 
+/* Breadcrumbs for sub-pages */
+.breadcrumbs ol {
+  @apply mb-4 flex flex-wrap items-center gap-x-1.5 text-xs text-textColor/60;
+}
+
+.breadcrumbs li + li::before {
+  content: "/";
+  @apply mr-1.5 text-textColor/40;
+}
+
+.breadcrumbs a {
+  @apply hover:text-accent transition-colors;
+}
+
+/* Banner on draft entries in preview builds */
+.draft-banner {
+  @apply mb-4 flex items-center gap-2 rounded-md border border-accent/40 bg-accent/10 px-3 py-2 text-sm text-accent;
+}
+
+/* Banner on archived revisions of a post */
+.archived-banner {
+  @apply mb-4 flex items-center gap-2 rounded-md border border-quote/40 bg-quote/10 px-3 py-2 text-sm text-quote;
+}
+
+.archived-banner a {
+  @apply underline;
+}
+
+/* "Updated on" changelog in the post header */
+.post-changelog {
+  @apply mt-2 text-sm print:hidden;
+}
+
+.post-changelog summary {
+  @apply cursor-pointer text-textColor/80;
+}
+
+.post-changelog-count {
+  @apply ms-1 text-textColor/60;
+}
+
+.post-changelog ol {
+  @apply mt-2 ms-5 list-disc space-y-1;
+}
+
+.post-changelog a {
+  @apply text-accent hover:underline;
+}
+
+.post-changelog-summary {
+  @apply block text-textColor/70;
+}
+
+/* Series navigation box on posts that are part of a series */
+.series-nav {
+  @apply mt-6 rounded-md border border-accent/30 px-4 py-3 text-sm print:hidden;
+}
+
+.series-nav-heading {
+  @apply font-semibold text-textColor/80;
+}
+
+.series-nav-heading a {
+  @apply text-accent hover:underline;
+}
+
+.series-nav-links {
+  @apply mt-2 flex flex-wrap justify-between gap-2;
+}
+
+.series-nav-links a {
+  @apply flex items-center gap-1 hover:text-accent transition-colors;
+}
+
+.series-nav-next {
+  @apply ms-auto text-end;
+}
+
+.series-nav-parts summary {
+  @apply mt-2 cursor-pointer text-textColor/70;
+}
+
+.series-nav-parts ol {
+  @apply mt-2 ms-5 list-decimal space-y-1;
+}
+
+.series-nav-parts a {
+  @apply hover:text-accent transition-colors;
+}
+
+.series-nav-parts [aria-current="page"] {
+  @apply font-semibold;
+}
+
+.series-part-number {
+  @apply text-xs font-semibold uppercase text-accent;
+}
+
+/* Related posts section at the end of posts */
+.related-posts {
+  @apply mb-4 space-y-2;
+}
+
+.related-posts li {
+  @apply flex flex-wrap items-baseline justify-between gap-x-3;
+}
+
+/* Language switcher in post heroes and per-language listings */
+.language-switcher {
+  @apply flex flex-wrap items-center gap-x-3 gap-y-1 text-sm;
+}
+
+.language-switcher a {
+  @apply hover:text-accent transition-colors;
+}
+
+.language-switcher [aria-current="page"] {
+  @apply font-semibold;
+}
+
 /* Hero Background (formerly Cover Overlay) for Hero and Stream */
 .cover-hero-container {
   @apply grid relative w-full overflow-hidden min-h-[150px] rounded-lg mb-4;
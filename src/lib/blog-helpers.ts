@@ -1,9 +1,4 @@
-import {
-	BUILD_FOLDER_PATHS,
-	HOME_PAGE_SLUG,
-	MENU_PAGES_COLLECTION,
-	BIBLIOGRAPHY_STYLE,
-} from "../constants";
+import { BUILD_FOLDER_PATHS, HOME_PAGE_SLUG, MENU_PAGES_COLLECTION } from "../constants";
 import type {
 	Block,
 	Heading1,
@@ -24,7 +19,7 @@ import fs from "node:fs";
 import { getBlock, getPostByPageId } from "../lib/notion/client";
 import superjson from "superjson";
 import { prepareBibliography } from "./citations";
-import { joinPlainText } from "../utils/richtext-utils";
+import { getAllRichTextLocations, joinPlainText } from "../utils/richtext-utils";
 
 const BASE_PATH = import.meta.env.BASE_URL;
 let downloadedImagesinSrc: Record<string, { default: ImageMetadata }> | null = null;
@@ -286,6 +281,7 @@ const _extractInterlinkedContentInBlock = (
 		block.LinkPreview?.Caption ||
 		block.NAudio?.Caption ||
 		block.NImage?.Caption ||
+		block.NPdf?.Caption ||
 		block.NumberedListItem?.RichTexts ||
 		block.Paragraph?.RichTexts ||
 		block.Quote?.RichTexts ||
@@ -316,15 +312,16 @@ const _extractInterlinkedContentInBlock = (
 		block.NAudio?.File?.Url ||
 		block.File?.External?.Url ||
 		block.File?.File?.Url ||
+		block.NPdf?.External?.Url ||
+		block.NPdf?.File?.Url ||
 		block.NImage?.External?.Url ||
 		block.NImage?.File?.Url ||
 		block.Video?.External?.Url ||
 		block.Video?.File?.Url;
 	let direct_nonmedia_link = block.Embed?.Url || block.LinkPreview?.Url || block.Bookmark?.Url;
-	let link_to_pageid =
-		block.LinkToPage?.PageId && block.LinkToPage?.PageId !== postId
-			? block.LinkToPage?.PageId
-			: null;
+	// A child_page block's id is the sub-page's id, so it links like link_to_page
+	const linkedPageId = block.LinkToPage?.PageId || (block.ChildPage ? block.Id : undefined);
+	let link_to_pageid = linkedPageId && linkedPageId !== postId ? linkedPageId : null;
 	filteredRichText.direct_media_link = direct_media_link ?? null;
 	filteredRichText.direct_nonmedia_link = direct_nonmedia_link ?? null;
 	filteredRichText.link_to_pageid = link_to_pageid ?? null;
@@ -597,6 +594,10 @@ export const resolvePostHref = (
 		return post.ExternalUrl as string;
 	}
 
+	if (post.IsDraft) {
+		return `${path.posix.join(BASE_PATH, "preview", post.Slug)}/`;
+	}
+
 	const isRoot =
 		typeof options?.forceIsRoot === "boolean"
 			? options.forceIsRoot
@@ -901,6 +902,8 @@ export interface PageContentExtractionResult {
 	footnotes: Footnote[];
 	citations: Citation[];
 	interlinkedContent: InterlinkedContentInPage[];
+	/** Plain text of every block, captions and table cells included; empty unless extractText. */
+	text: string;
 }
 
 /**
@@ -914,9 +917,11 @@ export function extractPageContent(
 		extractFootnotes: boolean;
 		extractCitations: boolean;
 		extractInterlinkedContent: boolean;
+		extractText?: boolean;
 	},
 ): PageContentExtractionResult {
 	const allFootnotes: Footnote[] = [];
+	const textParts: string[] = [];
 	const citationMap = new Map<string, Citation>();
 	const allInterlinkedContent: InterlinkedContentInPage[] = [];
 
@@ -973,6 +978,11 @@ export function extractPageContent(
 
 					// Add this block ID and Block object to the citation's SourceBlockIds and SourceBlocks
 					const existing = citationMap.get(key)!;
+					for (const locator of citation.Locators || []) {
+						if (!existing.Locators?.includes(locator)) {
+							existing.Locators = [...(existing.Locators || []), locator];
+						}
+					}
 					if (!existing.SourceBlockIds.includes(block.Id)) {
 						existing.SourceBlockIds.push(block.Id);
 						if (!existing.SourceBlocks) {
@@ -983,8 +993,7 @@ export function extractPageContent(
 				} else {
 					// First time seeing this key - assign new index
 					firstAppearanceCounter++;
-					const index =
-						BIBLIOGRAPHY_STYLE === "simplified-ieee" ? firstAppearanceCounter : undefined;
+					const index = firstAppearanceCounter;
 
 					// MUTATE the citation directly
 					citation.Index = index;
@@ -1000,9 +1009,7 @@ export function extractPageContent(
 					}
 
 					// Track this key's index
-					if (index !== undefined) {
-						keyToIndex.set(key, index);
-					}
+					keyToIndex.set(key, index);
 
 					// Add to map for bibliography
 					citationMap.set(key, citation);
@@ -1016,7 +1023,14 @@ export function extractPageContent(
 			allInterlinkedContent.push(interlinkedContent);
 		}
 
-		// 4. Recursively process children
+		// 4. Collect plain text
+		if (options.extractText) {
+			getAllRichTextLocations(block).forEach((location) => {
+				textParts.push(joinPlainText(location.richTexts));
+			});
+		}
+
+		// 5. Recursively process children
 		const childBlocks: Block[] = [];
 
 		// Collect all possible children
@@ -1090,5 +1104,6 @@ export function extractPageContent(
 		footnotes,
 		citations,
 		interlinkedContent: allInterlinkedContent,
+		text: textParts.join("\n"),
 	};
 }
@@ -5,14 +5,22 @@ import axios from "axios";
 import { Cite, plugins } from "@citation-js/core";
 import "@citation-js/plugin-bibtex";
 import "@citation-js/plugin-csl";
+import "@citation-js/plugin-ris";
 import acmSigProceedingsStyle from "../utils/acm-sig-proceedings.csl?raw";
+import chicagoAuthorDateStyle from "../utils/chicago-author-date.csl?raw";
+import chicagoNoteBibliographyStyle from "../utils/chicago-note-bibliography.csl?raw";
+import modernLanguageAssociationStyle from "../utils/modern-language-association.csl?raw";
 import type {
 	Block,
 	RichText,
 	Citation,
+	CitationItem,
+	CitationStyle,
+	CitationStyleFormat,
 	CitationsConfig,
 	BibSourceInfo,
 	CitationExtractionResult,
+	CslItem,
 	ParsedCitationEntry,
 	Footnote,
 } from "./interfaces";
@@ -22,12 +30,46 @@ import {
 	getChildrenFromBlock,
 	splitRichTextsAtCharPosition,
 } from "../utils/richtext-utils";
-import { BUILD_FOLDER_PATHS, LAST_BUILD_TIME, BIBLIOGRAPHY_STYLE } from "../constants";
+import {
+	BUILD_FOLDER_PATHS,
+	LAST_BUILD_TIME,
+	BIBLIOGRAPHY_STYLE,
+	BIBLIOGRAPHY_STYLE_BY_COLLECTION,
+} from "../constants";
+
+// Styles shipped with the site, on top of citation-js's apa, vancouver and harvard1.
+// simplified-ieee keeps its old name, backed by the public ACM SIG Proceedings CSL style. The
+// Chicago and MLA files are simplified subsets written for this site, not the upstream styles.
+const BUNDLED_STYLES: Record<string, string> = {
+	"simplified-ieee": acmSigProceedingsStyle,
+	"chicago-author-date": chicagoAuthorDateStyle,
+	"chicago-note-bibliography": chicagoNoteBibliographyStyle,
+	"modern-language-association": modernLanguageAssociationStyle,
+};
+
+const cslStyles = plugins.config.get("@csl").styles;
+for (const [id, style] of Object.entries(BUNDLED_STYLES)) {
+	cslStyles.add(id, style);
+}
 
-// Keep the existing simplified-ieee setting, backed by the public ACM SIG Proceedings CSL style.
-plugins.config.get("@csl").styles.add("simplified-ieee", acmSigProceedingsStyle);
+const DEFAULT_STYLE_ID = "simplified-ieee";
+
+// Anything without a URL scheme is a path relative to the repo root
+function isLocalBibSource(url: string): boolean {
+	return !/^[a-z][a-z\d+.-]*:\/\//i.test(url);
+}
 
 export function get_bib_source_info(url: string): BibSourceInfo {
+	// File in this repository, e.g. a Zotero library exported with Better BibTeX
+	if (isLocalBibSource(url)) {
+		return {
+			source: "local",
+			download_url: path.resolve(process.cwd(), url),
+			updated_url: null,
+			updated_instructions: "Local files are re-parsed when they are newer than their parsed cache",
+		};
+	}
+
 	// GitHub Gist
 	const gistMatch = url.match(/gist\.github\.com\/([^\/]+)\/([a-f0-9]+)/);
 	if (gistMatch) {
@@ -100,10 +142,11 @@ async function getGitHubLastUpdated(updatedUrl: string): Promise<string | null>
 }
 
 /**
- * Fetches a BibTeX file with intelligent caching
+ * Fetches a bibliography file (BibTeX, CSL-JSON or RIS) with intelligent caching
  *
  * Strategy:
  * - Check if cached file exists
+ * - For repo files: Re-parse only if the file changed after the cache was written, never fetch
  * - For GitHub: Check last-updated timestamp, skip fetch if unchanged
  * - For Dropbox/Drive: Fetch every time (no public timestamp) unless within same build
  * - Save to cache with metadata
@@ -119,14 +162,30 @@ export async function fetchBibTeXFile(url: string): Promise<string> {
 		fs.mkdirSync(cacheDir, { recursive: true });
 	}
 
-	const isCached = fs.existsSync(parsedFilePath);
+	const hasCache = fs.existsSync(parsedFilePath);
+	// Caches written before entries kept their CSL-JSON can only show apa or simplified-ieee
+	const cachedEntries = hasCache ? loadParsedCitations(urlHash) : null;
+	const isCached =
+		cachedEntries !== null && [...cachedEntries.values()].every((entry) => entry.csl);
 
 	// Determine if we should refetch
 	let shouldRefetch = !isCached;
 
 	if (isCached) {
+		// Repo files: compare modification times
+		if (sourceInfo.source === "local") {
+			const fileTime = fs.existsSync(sourceInfo.download_url)
+				? fs.statSync(sourceInfo.download_url).mtimeMs
+				: Infinity; // Missing file: try to read it, which falls back to the cache with an error
+			shouldRefetch = fileTime > fs.statSync(parsedFilePath).mtimeMs;
+			console.log(
+				shouldRefetch
+					? `Bibliography file ${url} has changed, re-parsing...`
+					: `Bibliography file ${url} is up-to-date (cached)`,
+			);
+		}
 		// Dropbox/Drive: ALWAYS refetch (no public timestamp API to verify changes)
-		if (!sourceInfo.updated_url) {
+		else if (!sourceInfo.updated_url) {
 			console.log(`BibTeX file ${url} from Dropbox/Drive, re-fetching (cannot verify changes)...`);
 			shouldRefetch = true;
 		}
@@ -154,21 +213,23 @@ export async function fetchBibTeXFile(url: string): Promise<string> {
 		return "cached";
 	}
 
-	// Fetch from remote
-	console.log(`Fetching BibTeX file from ${sourceInfo.download_url}...`);
+	// Read from the repo or fetch from remote
+	console.log(`Fetching bibliography file from ${sourceInfo.download_url}...`);
 	try {
-		const response = await axios.get(sourceInfo.download_url, { timeout: 10000 });
-		const content = response.data;
+		const content =
+			sourceInfo.source === "local"
+				? fs.readFileSync(sourceInfo.download_url, "utf-8")
+				: (await axios.get(sourceInfo.download_url, { timeout: 10000 })).data;
 
 		// Parse and save citations
-		const parsedCitations = parseAndFormatBibTeXContent(content);
+		const parsedCitations = parseAndFormatBibContent(content, url);
 		saveParsedCitations(urlHash, parsedCitations);
 
 		console.log(`✓ Fetched, parsed, and cached ${parsedCitations.size} citations from ${url}`);
 		return "success";
 	} catch (error) {
-		console.error(`Failed to fetch BibTeX file from ${url}:`, error);
-		if (isCached) {
+		console.error(`Failed to fetch bibliography file from ${url}:`, error);
+		if (hasCache) {
 			console.log(`Using cached parsed citations as fallback`);
 			return "cached-fallback";
 		}
@@ -176,13 +237,129 @@ export async function fetchBibTeXFile(url: string): Promise<string> {
 	}
 }
 
-function renderBibliography(data: any, template: "apa" | "simplified-ieee"): string {
-	return new Cite([data])
-		.format("bibliography", { format: "html", template, lang: "en-US" })
-		.replace(/<div[^>]*>|<\/div>/g, "")
+// ============================================================================
+// Citation Styles
+// ============================================================================
+
+function decodeXmlEntities(value: string): string {
+	return value
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&#(\d+);/g, (_match, code) => String.fromCharCode(Number(code)))
+		.replace(/&amp;/g, "&");
+}
+
+/**
+ * Reads how a CSL style cites in the text: the citation-format category (falling back to the
+ * style class and its citation layout) and the affixes around the citation layout.
+ */
+function readCitationLayout(xml: string): Omit<CitationStyle, "Id"> {
+	const citation = xml.match(/<citation\b[\s\S]*?<\/citation>/)?.[0] ?? "";
+	const category = xml.match(/<category\b[^>]*\bcitation-format="([^"]+)"/)?.[1];
+	let format: CitationStyleFormat = "author-date";
+	if (category === "note" || /<style\b[^>]*\bclass="note"/.test(xml)) {
+		format = "note";
+	} else if (category === "numeric" || (!category && citation.includes('"citation-number"'))) {
+		format = "numeric";
+	}
+
+	const layout = citation.match(/<layout\b([^>]*)>/)?.[1] ?? "";
+	const attribute = (name: string) =>
+		decodeXmlEntities(layout.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1] ?? "");
+	return {
+		Format: format,
+		Prefix: attribute("prefix"),
+		Suffix: attribute("suffix"),
+		Superscript: citation.includes('vertical-align="sup"'),
+	};
+}
+
+const loadedStyles = new Map<string, CitationStyle>();
+
+/**
+ * Loads a CSL style by citation-js or bundled id, or from a .csl file path relative to the
+ * repo root. Unknown styles fall back to the configured bibliography-format, then to
+ * simplified-ieee.
+ */
+export function getCitationStyle(name?: string | null): CitationStyle {
+	const id = name?.trim() || BIBLIOGRAPHY_STYLE || DEFAULT_STYLE_ID;
+	const loaded = loadedStyles.get(id);
+	if (loaded) return loaded;
+
+	let xml: string | undefined = cslStyles.has(id) ? cslStyles.get(id) : undefined;
+	if (!xml && id.toLowerCase().endsWith(".csl")) {
+		const stylePath = path.resolve(process.cwd(), id);
+		if (fs.existsSync(stylePath)) {
+			xml = fs.readFileSync(stylePath, "utf-8");
+			cslStyles.add(id, xml);
+		}
+	}
+
+	let style: CitationStyle;
+	if (xml) {
+		style = { Id: id, ...readCitationLayout(xml) };
+	} else {
+		const fallback =
+			BIBLIOGRAPHY_STYLE && id !== BIBLIOGRAPHY_STYLE ? BIBLIOGRAPHY_STYLE : DEFAULT_STYLE_ID;
+		if (id === fallback) throw new Error(`Citation style "${id}" could not be loaded`);
+		console.warn(`Unknown citation style "${id}", using "${fallback}" instead`);
+		style = getCitationStyle(fallback);
+	}
+
+	loadedStyles.set(id, style);
+	return style;
+}
+
+/**
+ * The citation style for a post: its collection's entry in bibliography-format-by-collection,
+ * or bibliography-format.
+ */
+export function getCitationStyleForCollection(collection?: string | null): CitationStyle {
+	return getCitationStyle(
+		(collection && BIBLIOGRAPHY_STYLE_BY_COLLECTION[collection]) || BIBLIOGRAPHY_STYLE,
+	);
+}
+
+function renderBibliography(data: CslItem, template: string): string {
+	return (
+		new Cite([data])
+			.format("bibliography", { format: "html", template, lang: "en-US" })
+			// Numeric styles number a one-entry bibliography "1."; the page numbers entries itself
+			.replace(/<div class="csl-left-margin">[\s[(]*\d+[\s.\])]*<\/div>/g, "")
+			.replace(/<div[^>]*>|<\/div>/g, "")
+			.trim()
+	);
+}
+
+function renderCitationLabel(data: CslItem, template: string): string | undefined {
+	try {
+		return new Cite([data]).format("citation", { format: "text", template, lang: "en-US" }).trim();
+	} catch (error) {
+		console.warn(`Failed to format in-text citation for ${data.id} in ${template}:`, error);
+		return undefined;
+	}
+}
+
+/** Formats one CSL-JSON item as a bibliography entry in a style, as HTML or plain text. */
+export function formatBibliographyEntry(
+	item: CslItem,
+	styleName: string,
+	format: "html" | "text" = "html",
+): string {
+	const { Id } = getCitationStyle(styleName);
+	if (format === "html") return renderBibliography(item, Id);
+	return new Cite([item])
+		.format("bibliography", { format: "text", template: Id, lang: "en-US" })
 		.trim();
 }
 
+/** Exports CSL-JSON items as RIS, for reference managers. */
+export function formatRis(items: CslItem[]): string {
+	return new Cite(items).format("ris");
+}
+
 // Private-use sentinels wrapped around the raw title before rendering. citeproc passes
 // them through untouched (surviving its HTML-entity escaping and smart-quote/italic
 // transforms), so a single render + one replace links only the title in the source URL —
@@ -191,8 +368,8 @@ const TITLE_START = "\uE000";
 const TITLE_END = "\uE001";
 
 function formatBibEntry(
-	entry: any,
-	template: "apa" | "simplified-ieee",
+	entry: CslItem,
+	template: string,
 	authors: string,
 	year: string,
 	url?: string,
@@ -224,16 +401,42 @@ function formatBibEntry(
 	}
 }
 
-function parseAndFormatBibTeXContent(content: string): Map<string, ParsedCitationEntry> {
+function isCslItem(value: unknown): value is CslItem {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// The citation key of a parsed entry: its citation-key (BibTeX, Better BibTeX CSL-JSON), its id
+// when that is usable as a key, or a generated AuthorYearTitle label (RIS without an ID)
+function getEntryKey(entry: CslItem, labels: Record<string, string>): string | undefined {
+	if (entry["citation-key"]) return entry["citation-key"];
+	const id = entry.id != null ? String(entry.id) : "";
+	if (id && !id.startsWith("temp_id_") && KEY_PATTERN.test(id)) return id;
+	return labels[id];
+}
+
+/**
+ * Parses a BibTeX, CSL-JSON or RIS file (detected by citation-js from its content) into
+ * citation entries
+ */
+function parseAndFormatBibContent(
+	content: unknown,
+	source: string,
+): Map<string, ParsedCitationEntry> {
 	const parsed = new Cite(content);
+	const labels: Record<string, string> = parsed.format("label");
 	const entries = new Map<string, ParsedCitationEntry>();
+	const data: unknown[] = Array.isArray(parsed.data) ? parsed.data : [];
 
-	for (const entry of parsed.data) {
-		const key = entry.id || entry["citation-key"];
+	for (const entry of data.filter(isCslItem)) {
+		const key = getEntryKey(entry, labels);
 		if (!key) continue;
+		if (entries.has(key)) {
+			console.warn(`Citation key "${key}" appears more than once in ${source}; using the last one`);
+		}
 
 		// Extract year
-		const year = entry.issued?.["date-parts"]?.[0]?.[0]?.toString() || entry.year || "n.d.";
+		const year =
+			entry.issued?.["date-parts"]?.[0]?.[0]?.toString() || entry.year?.toString() || "n.d.";
 
 		// Extract URL
 		const url = entry.URL;
@@ -243,41 +446,41 @@ function parseAndFormatBibTeXContent(content: string): Map<string, ParsedCitatio
 		if (entry.author && entry.author.length > 0) {
 			const authorList = entry.author;
 			if (authorList.length === 1) {
-				const author = authorList[0];
+				const author = authorList[0]!;
 				authors = author.family || author.literal || "Unknown";
 			} else if (authorList.length === 2) {
-				authors = `${authorList[0].family || authorList[0].literal} & ${authorList[1].family || authorList[1].literal}`;
+				authors = `${authorList[0]!.family || authorList[0]!.literal} & ${authorList[1]!.family || authorList[1]!.literal}`;
 			} else {
 				// Cap at 8 authors, then "et al."
 				const displayCount = Math.min(8, authorList.length);
 				if (authorList.length > 8) {
 					const firstAuthors = authorList
 						.slice(0, displayCount)
-						.map((a: any) => a.family || a.literal)
+						.map((a) => a.family || a.literal)
 						.join(", ");
 					authors = `${firstAuthors}, et al.`;
 				} else {
 					const allButLast = authorList
 						.slice(0, -1)
-						.map((a: any) => a.family || a.literal)
+						.map((a) => a.family || a.literal)
 						.join(", ");
 					const last =
-						authorList[authorList.length - 1].family || authorList[authorList.length - 1].literal;
+						authorList[authorList.length - 1]!.family || authorList[authorList.length - 1]!.literal;
 					authors = `${allButLast} & ${last}`;
 				}
 			}
 		}
 
-		const ieeeFormatted = formatBibEntry(entry, "simplified-ieee", authors, year, url);
-		const apaFormatted = formatBibEntry(entry, "apa", authors, year, url);
+		// Entries are rendered per style when cited; citation-js's internal graph is not kept
+		const { _graph, ...csl } = entry;
+		csl.id = key;
 
 		entries.set(key, {
 			key,
 			authors,
 			year,
-			url,
-			ieee_formatted: ieeeFormatted,
-			apa_formatted: apaFormatted,
+			...(url ? { url } : {}),
+			csl,
 		});
 	}
 
@@ -339,8 +542,9 @@ function saveCombinedEntries(entries: Map<string, ParsedCitationEntry>): void {
 export async function parseBibTeXFiles(urls: string[]): Promise<Map<string, ParsedCitationEntry>> {
 	// Always combine from individual parsed_{md5}.json files
 	// This is a fast operation (just reading and merging JSON files)
-	console.log("Combining parsed BibTeX files...");
+	console.log("Combining parsed bibliography files...");
 	const allEntries = new Map<string, ParsedCitationEntry>();
+	const sourceByKey = new Map<string, string>();
 
 	for (const url of urls) {
 		try {
@@ -354,7 +558,14 @@ export async function parseBibTeXFiles(urls: string[]): Promise<Map<string, Pars
 			if (parsedCitations) {
 				// Merge into allEntries (later entries override earlier ones if same key)
 				for (const [key, entry] of parsedCitations) {
+					const previousSource = sourceByKey.get(key);
+					if (previousSource && previousSource !== url) {
+						console.warn(
+							`  Citation key "${key}" is in both ${previousSource} and ${url}; using the entry from ${url}`,
+						);
+					}
 					allEntries.set(key, entry);
+					sourceByKey.set(key, url);
 				}
 				console.log(`  Added ${parsedCitations.size} citations from ${url}`);
 			} else {
@@ -377,75 +588,392 @@ export async function parseBibTeXFiles(urls: string[]): Promise<Map<string, Pars
 // Citation Formatting
 // ============================================================================
 
+type FormattedCitation = {
+	inText: string;
+	label: string | undefined;
+	bibliography: string;
+	authors: string;
+	year: string;
+	style: CitationStyle;
+};
+
+// The same key is usually cited many times per build, in one or two styles
+const formattedCitations = new Map<string, FormattedCitation>();
+
 /**
- * Formats a citation entry for display using pre-formatted data
+ * Formats a citation entry for display in a CSL style
  *
- * @param entry - ParsedCitationEntry with pre-formatted bibliography
- * @param style - "apa" or "simplified-ieee"
- * @returns Object with formatted strings
+ * @param entry - ParsedCitationEntry with its CSL-JSON item
+ * @param styleName - CSL style id or .csl path; defaults to bibliography-format
+ * @returns Object with formatted strings and the style they follow
  */
 export function formatCitation(
 	entry: ParsedCitationEntry,
-	style: "apa" | "simplified-ieee",
-): {
-	inText: string;
-	bibliography: string;
-	authors: string;
-	year: string;
-} {
-	// Select the appropriate pre-formatted bibliography
-	const bibliography = style === "apa" ? entry.apa_formatted : entry.ieee_formatted;
-
-	// In-text format
-	let inText = "";
-	if (style === "apa") {
-		inText = `${entry.authors}, ${entry.year}`;
+	styleName?: string | null,
+): FormattedCitation {
+	const style = getCitationStyle(styleName);
+	const cacheKey = `${style.Id}\u0000${entry.key}`;
+	const cached = formattedCitations.get(cacheKey);
+	if (cached) return cached;
+
+	let bibliography: string;
+	let label: string | undefined;
+	if (entry.csl) {
+		bibliography = formatBibEntry(entry.csl, style.Id, entry.authors, entry.year, entry.url);
+		if (style.Format === "author-date") label = renderCitationLabel(entry.csl, style.Id);
 	} else {
-		// simplified-ieee uses numbers, but Index is assigned later
-		inText = "[?]"; // Placeholder, will be replaced with actual number
+		// Older caches only hold the two pre-rendered styles
+		bibliography =
+			(style.Id === "apa" ? entry.apa_formatted : entry.ieee_formatted) ??
+			`${entry.authors} (${entry.year}).`;
 	}
 
-	return {
+	// Numeric and note styles show the first-appearance index, which is assigned later
+	let inText = "?";
+	if (style.Format === "author-date") inText = label ?? `(${entry.authors}, ${entry.year})`;
+	else if (style.Format === "numeric") inText = `${style.Prefix}?${style.Suffix}`;
+
+	const formatted = {
 		inText,
+		label,
 		bibliography,
 		authors: entry.authors,
 		year: entry.year,
+		style,
+	};
+	formattedCitations.set(cacheKey, formatted);
+	return formatted;
+}
+
+/**
+ * The in-text label of a citation in an author-date style, rendered by citeproc with every
+ * work's locator, prefix and suffix. Other styles number their citations when the page is
+ * built, so they get no label.
+ */
+export function formatCitationLabel(
+	items: CitationItem[],
+	style: CitationStyle,
+	bibEntries: Map<string, ParsedCitationEntry>,
+): string | undefined {
+	if (style.Format !== "author-date") return undefined;
+	const entries = items.map((item) => bibEntries.get(item.Key));
+	if (entries.some((entry) => !entry)) return undefined;
+
+	const isPlain = items.length === 1 && !items[0]!.Locator && !items[0]!.Prefix;
+	if (isPlain && !items[0]!.Suffix && !items[0]!.SuppressAuthor) {
+		return formatCitation(entries[0]!, style.Id).label;
+	}
+	if (entries.some((entry) => !entry!.csl)) return undefined;
+
+	try {
+		return new Cite(entries.map((entry) => entry!.csl))
+			.format("citation", {
+				format: "text",
+				template: style.Id,
+				lang: "en-US",
+				entry: items.map((item, index) => ({
+					id: entries[index]!.csl!.id,
+					locator: item.Locator,
+					label: item.LocatorLabel,
+					prefix: item.Prefix,
+					suffix: item.Suffix,
+					"suppress-author": item.SuppressAuthor,
+				})),
+			})
+			.trim();
+	} catch (error) {
+		const keys = items.map((item) => item.Key).join(", ");
+		console.warn(`Failed to format in-text citation for ${keys} in ${style.Id}:`, error);
+		return undefined;
+	}
+}
+
+/**
+ * The text shown for an in-text citation: the author-date label, note numbers for note styles,
+ * or first-appearance numbers with their locators in the style's brackets, e.g. "[1, p. 12; 3]".
+ */
+export function getCitationMarkerText(
+	items: CitationItem[],
+	citations: Citation[],
+	style: CitationStyle,
+	label?: string,
+): string {
+	if (style.Format === "author-date" || citations.some((citation) => !citation.Index)) {
+		if (label) return label;
+		const parts = items.map((item, index) => {
+			const citation = citations[index]!;
+			const work = item.SuppressAuthor ? citation.Year : `${citation.Authors}, ${citation.Year}`;
+			const locator = formatLocator(item);
+			return [item.Prefix, locator ? `${work}, ${locator}` : work, item.Suffix]
+				.filter(Boolean)
+				.join(" ");
+		});
+		return `(${parts.join("; ")})`;
+	}
+
+	if (style.Format === "note") {
+		return citations.map((citation) => citation.Index).join(",");
+	}
+
+	const parts = items.map((item, index) => {
+		const locator = formatLocator(item);
+		const number = `${citations[index]!.Index}${locator ? `, ${locator}` : ""}`;
+		return [item.Prefix, number, item.Suffix].filter(Boolean).join(" ");
+	});
+	const hasExtras = items.some((item) => item.Locator || item.Prefix || item.Suffix);
+	return `${style.Prefix}${parts.join(hasExtras ? "; " : ", ")}${style.Suffix}`;
+}
+
+/**
+ * Re-renders the citations in a page's blocks (and its cached bibliography, if given) in
+ * another style, for collections with their own bibliography-format. Citations already in
+ * that style are left alone.
+ */
+export function applyCitationStyle(
+	blocks: Block[],
+	citations: Citation[] | null,
+	style: CitationStyle,
+	bibEntries: Map<string, ParsedCitationEntry>,
+): void {
+	const restyle = (citation: Citation) => {
+		if (citation.Style?.Id === style.Id) return;
+		const entry = bibEntries.get(citation.Key);
+		if (!entry) return;
+		const formatted = formatCitation(entry, style.Id);
+		citation.FormattedEntry = formatted.bibliography;
+		citation.Style = formatted.style;
+		citation.Label = formatted.label;
 	};
+
+	const relabel = (richTexts: RichText[]) => {
+		for (const richText of richTexts) {
+			if (!richText.IsCitationMarker || !richText.CitationItems) continue;
+			richText.CitationLabel = formatCitationLabel(richText.CitationItems, style, bibEntries);
+		}
+	};
+
+	// Citations in footnote content are kept on the block with the footnote marker
+	const visit = (block: Block, isRestyled = false) => {
+		const needsRestyle =
+			isRestyled || (block.Citations || []).some((citation) => citation.Style?.Id !== style.Id);
+		block.Citations?.forEach(restyle);
+		if (needsRestyle) {
+			getAllRichTextLocations(block).forEach((location) => relabel(location.richTexts));
+			block.Footnotes?.forEach((footnote) => {
+				if (footnote.Content.RichTexts) relabel(footnote.Content.RichTexts);
+			});
+		}
+		getChildrenFromBlock(block)?.forEach((child) => visit(child));
+		block.ColumnList?.Columns?.forEach((column) =>
+			column.Children?.forEach((child) => visit(child)),
+		);
+		block.Footnotes?.forEach((footnote) =>
+			footnote.Content.Blocks?.forEach((child) => visit(child, needsRestyle)),
+		);
+	};
+
+	blocks.forEach((block) => visit(block));
+	for (const citation of citations || []) {
+		// Cached source blocks are copies, shown in the bibliography's back-link previews
+		citation.SourceBlocks?.forEach((block) => visit(block));
+		restyle(citation);
+	}
 }
 
 // ============================================================================
 // Citation Extraction from Block
 // ============================================================================
 
+const CITATION_KEY = "[\\p{L}\\p{N}_\\-:]+";
+
+// Bracketed text with at least one @key: [@a], [see @a, p. 12; -@b]
+const PANDOC_CITATION_PATTERN = /\[([^[\]]*@[^[\]]*)\]/gu;
+// "see @key, p. 12": the key starts the item or follows a space, so e-mail addresses are skipped
+const PANDOC_ITEM_PATTERN = new RegExp(
+	`^(?:(.*?)\\s+)?(-?)@(${CITATION_KEY})(?:\\s*,?\\s*(.*))?$`,
+	"su",
+);
+// \cite{a,b}, \citep[see][p.~12]{a}, \citeyear{a}
+const LATEX_CITATION_PATTERN =
+	/\\(cite|citep|parencite|autocite|citeyear|citeyearpar)\*?(?:\[([^\]]*)\])?(?:\[([^\]]*)\])?\{([^}]+)\}/gu;
+// #cite(key), #cite(<a>, <b>), #cite(<a>, supplement: [p. 12], form: "year")
+const TYPST_CITATION_PATTERN = /#cite\(((?:[^()[\]]|\[[^\]]*\])*)\)/gu;
+const KEY_PATTERN = new RegExp(`^${CITATION_KEY}$`, "u");
+
+// CSL locator labels for the terms writers type before a locator, as pandoc reads them
+const LOCATOR_LABELS: Record<string, string> = {
+	p: "page",
+	pp: "page",
+	page: "page",
+	pages: "page",
+	ch: "chapter",
+	chap: "chapter",
+	chapter: "chapter",
+	chapters: "chapter",
+	sec: "section",
+	section: "section",
+	"§": "section",
+	"§§": "section",
+	vol: "volume",
+	vols: "volume",
+	volume: "volume",
+	fig: "figure",
+	figs: "figure",
+	figure: "figure",
+	para: "paragraph",
+	paragraph: "paragraph",
+	"¶": "paragraph",
+	l: "line",
+	ll: "line",
+	line: "line",
+	n: "note",
+	nn: "note",
+	note: "note",
+	eq: "equation",
+	equation: "equation",
+	tbl: "table",
+	table: "table",
+	pt: "part",
+	part: "part",
+	bk: "book",
+	book: "book",
+	col: "column",
+	column: "column",
+	v: "verse",
+	vv: "verse",
+	verse: "verse",
+};
+
+// Singular and plural short forms for showing a locator beside a number or an entry
+const LOCATOR_SHORT_FORMS: Record<string, [string, string]> = {
+	page: ["p.", "pp."],
+	chapter: ["ch.", "chs."],
+	section: ["§", "§§"],
+	volume: ["vol.", "vols."],
+	figure: ["fig.", "figs."],
+	paragraph: ["para.", "paras."],
+	line: ["l.", "ll."],
+	note: ["n.", "nn."],
+	equation: ["eq.", "eqs."],
+	table: ["tbl.", "tbls."],
+	part: ["pt.", "pts."],
+	book: ["bk.", "bks."],
+	column: ["col.", "cols."],
+	verse: ["v.", "vv."],
+};
+
+// An optional term, then numbers and ranges ("33-35, 38"); anything after is the suffix
+const LOCATOR_PATTERN = /^(?:([\p{L}§¶]+)\.?\s*)?(\d\w*(?:\s*[-–—,&]\s*\d\w*)*)(.*)$/su;
+
 /**
- * Extracts citations from a single RichText array
- * Splits RichTexts at citation positions into [before, marker, after]
- * Markers are tagged with IsCitationMarker and CitationRef
+ * Splits the text after a citation key into a locator and a suffix: "p. 12" and "33-35" (a
+ * page) are locators, "and passim" is a suffix.
  */
-function extractCitationsFromRichTextArray(
+function parseLocator(text: string): Pick<CitationItem, "Locator" | "LocatorLabel" | "Suffix"> {
+	const trimmed = text.replace(/~/g, " ").trim();
+	if (!trimmed) return {};
+	const match = trimmed.match(LOCATOR_PATTERN);
+	const label = match?.[1] ? LOCATOR_LABELS[match[1].toLowerCase()] : "page";
+	if (!match || !label) return { Suffix: trimmed };
+	const suffix = match[3]!.replace(/^\s*,/, "").trim();
+	return { Locator: match[2]!.trim(), LocatorLabel: label, Suffix: suffix || undefined };
+}
+
+/** A locator as shown beside a citation number or bibliography entry, e.g. "p. 12" or "pp. 3-5". */
+export function formatLocator(item: CitationItem): string | null {
+	if (!item.Locator) return null;
+	const forms = LOCATOR_SHORT_FORMS[item.LocatorLabel ?? "page"];
+	const isPlural = /[-–—,&]/.test(item.Locator);
+	const term = forms ? forms[isPlural ? 1 : 0] : item.LocatorLabel;
+	return `${term} ${item.Locator}`;
+}
+
+function parsePandocCitation(content: string): CitationItem[] | null {
+	const items: CitationItem[] = [];
+	for (const part of content.split(";")) {
+		const match = part.trim().match(PANDOC_ITEM_PATTERN);
+		if (!match) return null;
+		items.push({
+			Key: match[3]!,
+			Prefix: match[1]?.trim() || undefined,
+			SuppressAuthor: match[2] === "-" || undefined,
+			...parseLocator(match[4] ?? ""),
+		});
+	}
+	return items;
+}
+
+function parseLatexCitation(match: RegExpExecArray): CitationItem[] | null {
+	const keys = match[4]!.split(",").map((key) => key.trim());
+	if (!keys.every((key) => KEY_PATTERN.test(key))) return null;
+	// One optional argument is the postnote; with two, the first is the prefix
+	const prefix = match[3] !== undefined ? match[2] : undefined;
+	const postnote = match[3] ?? match[2];
+	const suppressAuthor = match[1]!.startsWith("citeyear") || undefined;
+	return keys.map((key, index) => ({
+		Key: key,
+		SuppressAuthor: suppressAuthor,
+		...(index === 0 && prefix?.trim() ? { Prefix: prefix.replace(/~/g, " ").trim() } : {}),
+		...(index === keys.length - 1 && postnote ? parseLocator(postnote) : {}),
+	}));
+}
+
+function parseTypstCitation(args: string): CitationItem[] | null {
+	const supplement = args.match(/supplement:\s*\[([^\]]*)\]/)?.[1];
+	const form = args.match(/form:\s*"([^"]*)"/)?.[1];
+	const keys = args
+		.replace(/\b(?:supplement|form|style):\s*(?:\[[^\]]*\]|"[^"]*"|[\w.-]+)/g, "")
+		.split(",")
+		.map((arg) =>
+			arg
+				.trim()
+				.replace(/^<(.*)>$/, "$1")
+				.replace(/^"(.*)"$/, "$1"),
+		)
+		.filter(Boolean);
+	if (keys.length === 0 || !keys.every((key) => KEY_PATTERN.test(key))) return null;
+	const suppressAuthor = form === "year" || undefined;
+	return keys.map((key, index) => ({
+		Key: key,
+		SuppressAuthor: suppressAuthor,
+		...(index === keys.length - 1 && supplement ? parseLocator(supplement) : {}),
+	}));
+}
+
+/**
+ * Finds in-text citations in a RichText array for the configured format, each with every work
+ * it cites. Citations inside code, equations or mentions are skipped. Returns null for an
+ * unknown format.
+ *
+ * - [@key] (pandoc): [@a; @b], [@a, p. 12], [see @a, ch. 3 and passim], [-@a]
+ * - \cite{key} (LaTeX): \cite{a,b}, \citep[see][p.~12]{a}, \citeyear{a}
+ * - #cite(key) (typst): #cite(<a>, <b>), #cite(<a>, supplement: [p. 12]), #cite(<a>, form: "year")
+ */
+export function findCitationMatches(
 	richTexts: RichText[],
 	citationFormat: string,
-	bibEntries: Map<string, ParsedCitationEntry>,
-	isInFootnoteContent: boolean = false,
-): { modifiedRichTexts: RichText[]; citations: Citation[] } {
-	const citations: Citation[] = [];
+): { items: CitationItem[]; start: number; end: number; fullMatch: string }[] | null {
 	const fullText = joinPlainText(richTexts);
-	const matches: { key: string; start: number; end: number; fullMatch: string }[] = [];
+	const matches: { items: CitationItem[]; start: number; end: number; fullMatch: string }[] = [];
 
-	// Build regex based on format
+	// Build regex and item parser based on format
 	let pattern: RegExp;
+	let parse: (match: RegExpExecArray) => CitationItem[] | null;
 	if (citationFormat === "[@key]") {
-		pattern = /\[@([\p{L}\p{N}_\-:]+)\]/gu;
+		pattern = PANDOC_CITATION_PATTERN;
+		parse = (match) => parsePandocCitation(match[1]!);
 	} else if (citationFormat === "\\cite{key}") {
-		pattern = /\\cite\{([\p{L}\p{N}_\-:]+)\}/gu;
+		pattern = LATEX_CITATION_PATTERN;
+		parse = parseLatexCitation;
 	} else if (citationFormat === "#cite(key)") {
-		pattern = /#cite\(([\p{L}\p{N}_\-:]+)\)/gu;
+		pattern = TYPST_CITATION_PATTERN;
+		parse = (match) => parseTypstCitation(match[1]!);
 	} else {
-		console.warn(`Unknown citation format: ${citationFormat}`);
-		return { modifiedRichTexts: richTexts, citations: [] };
+		return null;
 	}
 
 	// Find all matches
+	pattern.lastIndex = 0;
 	let match: RegExpExecArray | null;
 	while ((match = pattern.exec(fullText)) !== null) {
 		const charStart = match.index;
@@ -469,14 +997,39 @@ function extractCitationsFromRichTextArray(
 			continue;
 		}
 
+		const items = parse(match);
+		if (!items) continue;
+
 		matches.push({
-			key: match[1] || "",
+			items,
 			start: match.index,
 			end: match.index + match[0].length,
 			fullMatch: match[0],
 		});
 	}
 
+	return matches;
+}
+
+/**
+ * Extracts citations from a single RichText array
+ * Splits RichTexts at citation positions into [before, marker, after]
+ * Markers are tagged with IsCitationMarker and CitationRef
+ */
+function extractCitationsFromRichTextArray(
+	richTexts: RichText[],
+	citationFormat: string,
+	bibEntries: Map<string, ParsedCitationEntry>,
+	isInFootnoteContent: boolean = false,
+): { modifiedRichTexts: RichText[]; citations: Citation[] } {
+	const citations: Citation[] = [];
+	const matches = findCitationMatches(richTexts, citationFormat);
+
+	if (matches === null) {
+		console.warn(`Unknown citation format: ${citationFormat}`);
+		return { modifiedRichTexts: richTexts, citations: [] };
+	}
+
 	if (matches.length === 0) {
 		return { modifiedRichTexts: richTexts, citations: [] };
 	}
@@ -485,29 +1038,37 @@ function extractCitationsFromRichTextArray(
 	// Process in reverse order to maintain positions
 	matches.reverse();
 
+	const style = getCitationStyle(BIBLIOGRAPHY_STYLE);
 	let newRichTexts = [...richTexts];
 	for (const m of matches) {
-		// Look up citation key in bibEntries
-		const entry = bibEntries.get(m.key);
-		if (!entry) {
-			console.warn(`Citation key "${m.key}" not found in BibTeX entries`);
+		// Look up citation keys in bibEntries; a citation with an unknown key is left as written
+		const missingKeys = m.items.filter((item) => !bibEntries.has(item.Key));
+		if (missingKeys.length > 0) {
+			for (const { Key } of missingKeys) {
+				console.warn(`Citation key "${Key}" not found in BibTeX entries`);
+			}
 			continue;
 		}
 
-		// Format citation
-		const formatted = formatCitation(entry, BIBLIOGRAPHY_STYLE as "apa" | "simplified-ieee");
-
-		// Create Citation object
-		const citation: Citation = {
-			Key: m.key,
-			FormattedEntry: formatted.bibliography,
-			Authors: formatted.authors,
-			Year: formatted.year,
-			Url: entry.url,
-			SourceBlockIds: [], // Will be populated later
-			IsInFootnoteContent: isInFootnoteContent,
-		};
-		citations.push(citation);
+		// Create a Citation object per cited work, in document order
+		const matchCitations = m.items.map((item): Citation => {
+			const entry = bibEntries.get(item.Key)!;
+			const formatted = formatCitation(entry, style.Id);
+			const locator = formatLocator(item);
+			return {
+				Key: item.Key,
+				FormattedEntry: formatted.bibliography,
+				Style: formatted.style,
+				Label: formatted.label,
+				Authors: formatted.authors,
+				Year: formatted.year,
+				Url: entry.url,
+				SourceBlockIds: [], // Will be populated later
+				IsInFootnoteContent: isInFootnoteContent,
+				Locators: locator ? [locator] : undefined,
+			};
+		});
+		citations.unshift(...matchCitations);
 
 		// Split RichTexts at match boundaries
 		const { before, after } = splitRichTextsAtCharPosition(newRichTexts, m.start);
@@ -528,7 +1089,9 @@ function extractCitationsFromRichTextArray(
 				Color: "default",
 			},
 			IsCitationMarker: true,
-			CitationRef: m.key,
+			CitationRef: m.items[0]!.Key,
+			CitationItems: m.items,
+			CitationLabel: formatCitationLabel(m.items, style, bibEntries),
 		};
 
 		// Reconstruct RichTexts
@@ -693,17 +1256,19 @@ export function extractCitationsFromBlock(
 /**
  * Sorts citations for bibliography display
  *
- * - IEEE: By Index (order of first appearance) - [1], [2], [3]...
- * - APA: Alphabetically by Authors field
+ * - Numeric styles: By Index (order of first appearance) - [1], [2], [3]...
+ * - Note styles: By Index too, so each entry sits at the number of its superscript note
+ * - Author-date styles: Alphabetically by Authors field
  */
 export function prepareBibliography(citations: Citation[]): Citation[] {
 	const sorted = [...citations];
+	const style = citations[0]?.Style ?? getCitationStyle();
 
-	if (BIBLIOGRAPHY_STYLE === "simplified-ieee") {
+	if (style.Format === "numeric" || style.Format === "note") {
 		// Sort by Index (first appearance order)
 		sorted.sort((a, b) => (a.Index || 0) - (b.Index || 0));
 	} else {
-		// APA: Sort alphabetically by authors
+		// Sort alphabetically by authors
 		sorted.sort((a, b) => a.Authors.localeCompare(b.Authors));
 	}
 
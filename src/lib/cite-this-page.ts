@@ -0,0 +1,165 @@
+import type { CslItem, PageCitation, Post } from "./interfaces";
+import { getPostLink } from "./blog-helpers";
+import { formatBibliographyEntry, formatRis } from "./citations";
+import { MENU_PAGES_COLLECTION } from "../constants";
+import { siteInfo } from "../site.config";
+import { getCalendarDateParts } from "../utils/date";
+import { getPostLanguage } from "../utils/language";
+
+const UNKNOWN_AUTHOR = "Unknown Author";
+
+const MONTH_NAMES = [
+	"Jan",
+	"Feb",
+	"Mar",
+	"Apr",
+	"May",
+	"Jun",
+	"Jul",
+	"Aug",
+	"Sep",
+	"Oct",
+	"Nov",
+	"Dec",
+];
+
+// Formatted citations offered next to the machine-readable ones, by CSL style id
+export const PAGE_CITATION_STYLES = [
+	{ id: "apa", name: "APA" },
+	{ id: "modern-language-association", name: "MLA" },
+	{ id: "chicago-author-date", name: "Chicago" },
+] as const;
+
+// Files served at /posts/<slug>/cite.<extension>
+export const PAGE_CITATION_DOWNLOADS = {
+	bib: { name: "BibTeX", contentType: "application/x-bibtex" },
+	ris: { name: "RIS", contentType: "application/x-research-info-systems" },
+	json: { name: "CSL-JSON", contentType: "application/vnd.citationstyles.csl+json" },
+} as const;
+
+export type PageCitationDownload = keyof typeof PAGE_CITATION_DOWNLOADS;
+
+// "Firstname Middlename Lastname" -> ["Lastname", "Firstname Middlename"]; a single name has no given part
+function splitAuthorName(name: string): [string, string | null] {
+	const parts = name.trim().split(/\s+/);
+	if (parts.length === 1) return [parts[0]!, null];
+	return [parts[parts.length - 1]!, parts.slice(0, -1).join(" ")];
+}
+
+/** "Lastname, Firstname Middlename", as BibTeX and citation_author want it. */
+export function formatAuthorName(name: string): string {
+	if (!name || name === UNKNOWN_AUTHOR) return UNKNOWN_AUTHOR;
+	const [family, given] = splitAuthorName(name);
+	return given ? `${family}, ${given}` : family;
+}
+
+// The post's authors, else the site author
+function getAuthors(post: Post): string[] {
+	if (post.Authors && post.Authors.length > 0) {
+		return post.Authors.map((a) => a.name);
+	}
+	if (siteInfo.author) {
+		return [siteInfo.author];
+	}
+	return [UNKNOWN_AUTHOR];
+}
+
+/**
+ * How to cite a post. The URL is absolute when the site URL is configured in astro.config.
+ */
+export function getPageCitation(post: Post, site: URL | undefined): PageCitation {
+	const dateParts = getCalendarDateParts(post.Date);
+	const year = dateParts?.year ?? new Date().getUTCFullYear();
+	const authors = getAuthors(post);
+
+	// Key in format lastnameyearfirstNofslug (e.g., "yan2024aligneval")
+	const firstAuthor = authors[0] || UNKNOWN_AUTHOR;
+	const lastname =
+		firstAuthor === UNKNOWN_AUTHOR ? "unknown" : splitAuthorName(firstAuthor)[0].toLowerCase();
+	const slugShort = post.Slug.replace(/[-_]/g, "").substring(0, 15);
+
+	const isPage = post.Collection === MENU_PAGES_COLLECTION;
+	const postPath = getPostLink(post.Slug, isPage);
+	const fullUrl = site ? new URL(postPath, site).toString() : postPath;
+
+	return {
+		Key: `${lastname}${year}${slugShort}`,
+		Title: post.Title,
+		Authors: authors,
+		Year: year,
+		Month: dateParts?.month,
+		Day: dateParts?.day,
+		Url: decodeURIComponent(fullUrl),
+		SiteTitle: siteInfo.title,
+		// e.g. "eugeneyan.com" from "https://eugeneyan.com"
+		Hostname: site ? site.hostname : "unknown",
+		Language: getPostLanguage(post),
+	};
+}
+
+/** A BibTeX @article entry, with the site's hostname as the journal. */
+export function formatPageCitationBibTeX(citation: PageCitation): string {
+	return `@article{${citation.Key},
+  title   = {${citation.Title}},
+  author  = {${citation.Authors.map(formatAuthorName).join(" and ")}},
+  journal = {${citation.Hostname}},
+  year    = {${citation.Year}},
+  month   = {${MONTH_NAMES[(citation.Month ?? 1) - 1]}},
+  url     = {${citation.Url}}
+}`;
+}
+
+/** The post as a CSL-JSON blog post item. */
+export function getPageCitationCslItem(citation: PageCitation): CslItem {
+	const dateParts = [citation.Year, citation.Month, citation.Day].filter(
+		(part): part is number => part !== undefined,
+	);
+	return {
+		id: citation.Key,
+		type: "post-weblog",
+		title: citation.Title,
+		author: citation.Authors.map((name) => {
+			const [family, given] = splitAuthorName(name);
+			return name === UNKNOWN_AUTHOR || !given ? { literal: name } : { family, given };
+		}),
+		"container-title": citation.SiteTitle,
+		issued: { "date-parts": [dateParts] },
+		URL: citation.Url,
+		language: citation.Language,
+	};
+}
+
+/** The contents of /posts/<slug>/cite.<extension>. */
+export function formatPageCitationDownload(
+	citation: PageCitation,
+	extension: PageCitationDownload,
+): string {
+	switch (extension) {
+		case "bib":
+			return formatPageCitationBibTeX(citation);
+		case "ris":
+			return formatRis([getPageCitationCslItem(citation)]);
+		case "json":
+			return JSON.stringify([getPageCitationCslItem(citation)], null, 2);
+	}
+}
+
+/** The post formatted in a CSL style: HTML to show, plain text to copy. */
+export function formatPageCitationText(
+	citation: PageCitation,
+	styleId: string,
+): { html: string; text: string } {
+	const item = getPageCitationCslItem(citation);
+	return {
+		html: formatBibliographyEntry(item, styleId, "html"),
+		text: formatBibliographyEntry(item, styleId, "text"),
+	};
+}
+
+/** citation_publication_date wants YYYY/MM/DD, or as much of it as is known. */
+export function getHighwireDate(citation: PageCitation): string {
+	return [citation.Year, citation.Month, citation.Day]
+		.filter((part) => part !== undefined)
+		.map((part) => String(part).padStart(2, "0"))
+		.join("/");
+}
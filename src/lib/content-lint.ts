@@ -0,0 +1,300 @@
+import fs from "node:fs";
+import path from "node:path";
+import superjson from "superjson";
+import {
+	BIBTEX_CITATIONS_ENABLED,
+	BUILD_FOLDER_PATHS,
+	CITATIONS,
+	FOOTNOTES,
+	IN_PAGE_FOOTNOTES_ENABLED,
+	MDX_SNIPPET_TRIGGER,
+	SHORTCODES,
+} from "../constants";
+import type { Block, Post, RichText } from "./interfaces";
+import {
+	getAllDraftEntries,
+	getAllEntries,
+	getAllSubPages,
+	getBibEntriesCacheSnapshot,
+} from "./notion/client";
+import { extractTargetBlocks } from "./blog-helpers";
+import { findAllFootnoteMarkers } from "./footnotes";
+import { findCitationMatches } from "./citations";
+import { getAllRichTextLocations, joinPlainText } from "../utils/richtext-utils";
+import { extractExpressiveCode } from "../utils/expressive-code";
+
+export type ContentLintSeverity = "info" | "warning" | "error";
+
+export interface ContentLintIssue {
+	severity: ContentLintSeverity;
+	rule:
+		| "internal-link"
+		| "duplicate-slug"
+		| "undefined-footnote"
+		| "missing-citation"
+		| "image-caption"
+		| "code-shortcode";
+	message: string;
+	post?: { Title: string; Slug: string; PageId: string } | undefined;
+	blockId?: string | undefined;
+}
+
+const SEVERITY_RANK: Record<ContentLintSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+// Every block type getAllRichTextLocations reads, plus link_to_page for page links
+const LINTED_BLOCK_TYPES = [
+	"paragraph",
+	"heading_1",
+	"heading_2",
+	"heading_3",
+	"heading_4",
+	"bulleted_list_item",
+	"numbered_list_item",
+	"to_do",
+	"quote",
+	"callout",
+	"toggle",
+	"code",
+	"image",
+	"video",
+	"audio",
+	"file",
+	"pdf",
+	"embed",
+	"bookmark",
+	"link_preview",
+	"table",
+	"link_to_page",
+];
+
+// Commands understood by the shiki notation transformers in constants.ts
+const SHIKI_NOTATION_PATTERN = /\[!code\s+([^\]]*)\]/g;
+const KNOWN_SHIKI_NOTATION =
+	/^(--|\+\+|warning|error|highlight(?::\d+)?|word:\S+?(?::\d+)?|focus(?::\d+)?)$/;
+
+export function isAtOrAboveSeverity(
+	severity: ContentLintSeverity,
+	threshold: ContentLintSeverity,
+): boolean {
+	return SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold];
+}
+
+function normalizePageId(pageId: string): string {
+	return pageId.replace(/-/g, "").toLowerCase();
+}
+
+function loadCachedBlocks(post: Post): Block[] | null {
+	try {
+		return superjson.parse(
+			fs.readFileSync(path.join(BUILD_FOLDER_PATHS["blocksJson"], `${post.PageId}.json`), "utf-8"),
+		);
+	} catch {
+		return null;
+	}
+}
+
+// Notion's "Format code" can move a shortcode's second half onto its own line
+function startsWithShortcode(code: string, shortcode: string): boolean {
+	return code.startsWith(shortcode) || code.startsWith(shortcode.replace(/ (?=<!--)/, "\n"));
+}
+
+function lintCodeBlock(block: Block): string[] {
+	const problems: string[] = [];
+	const rawCode = (block.Code?.RichTexts || []).map((richText) => richText.PlainText).join("");
+
+	// The frame options come first, the other shortcodes apply to the code after them
+	const expressiveCode = SHORTCODES["expressive-code"];
+	const framed = extractExpressiveCode(rawCode, block.Code?.Language.toLowerCase() || "");
+	if (!framed && expressiveCode?.start && rawCode.includes(expressiveCode.start)) {
+		problems.push(
+			rawCode.trimStart().startsWith(expressiveCode.start)
+				? `"expressive-code" start marker has no end marker`
+				: `"expressive-code" shortcode is not at the start of the code block and is ignored`,
+		);
+	}
+	if (framed) {
+		const lineCount = framed.code.split("\n").length;
+		const { mark, ins, del, collapse } = framed.options;
+		if ([...mark, ...ins, ...del, ...collapse.flat()].some((line) => line > lineCount)) {
+			problems.push(`"expressive-code" line ranges go past the last line (${lineCount})`);
+		}
+	}
+	const code = framed ? framed.code : rawCode;
+
+	const leadingShortcodes: [string, string | undefined][] = [
+		["html-render", SHORTCODES["html-render"]],
+		["html-inject", SHORTCODES["html-inject"]],
+		["shiki-transform", SHORTCODES["shiki-transform"]],
+	];
+	for (const [name, shortcode] of leadingShortcodes) {
+		if (!shortcode) continue;
+		if (startsWithShortcode(code, shortcode)) {
+			if (!code.slice(shortcode.length).trim()) {
+				problems.push(`"${name}" shortcode is followed by no content`);
+			}
+		} else if (code.includes(shortcode)) {
+			problems.push(`"${name}" shortcode is not at the start of the code block and is ignored`);
+		}
+	}
+
+	// Code blocks that start with the trigger only stay code blocks when MDX snippets are off
+	const mdxTrigger = MDX_SNIPPET_TRIGGER?.trim().toLowerCase();
+	if (mdxTrigger && code.toLowerCase().includes(mdxTrigger)) {
+		problems.push(
+			code.trimStart().toLowerCase().startsWith(mdxTrigger)
+				? `"mdx-inject" shortcode needs external-content custom components to be configured`
+				: `"mdx-inject" shortcode is not at the start of the code block and is ignored`,
+		);
+	}
+
+	if (SHORTCODES["shiki-transform"] && startsWithShortcode(code, SHORTCODES["shiki-transform"])) {
+		for (const [, command] of code.matchAll(SHIKI_NOTATION_PATTERN)) {
+			if (!KNOWN_SHIKI_NOTATION.test(command!.trim())) {
+				problems.push(`unknown shiki notation "[!code ${command}]"`);
+			}
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * Checks every published post and sub-page for content that builds but renders broken:
+ * links to pages that are not on the site, duplicate slugs, footnote markers without a
+ * definition, citation keys missing from the bib files, images without a caption (used as
+ * alt text) and malformed code block shortcodes.
+ *
+ * Reads the block JSON cached by getPostContentByPostId, so it makes no Notion requests.
+ */
+export async function lintContent(): Promise<ContentLintIssue[]> {
+	const issues: ContentLintIssue[] = [];
+	const entries = await getAllEntries();
+	const subPages = await getAllSubPages();
+	const drafts = await getAllDraftEntries();
+	const posts = [...entries, ...subPages];
+
+	const publishedIds = new Set(posts.map((post) => normalizePageId(post.PageId)));
+	const draftIds = new Set(drafts.map((draft) => normalizePageId(draft.PageId)));
+
+	const postsBySlug = new Map<string, Post[]>();
+	for (const post of posts) {
+		postsBySlug.set(post.Slug, [...(postsBySlug.get(post.Slug) || []), post]);
+	}
+	postsBySlug.forEach((sameSlug, slug) => {
+		if (sameSlug.length < 2) return;
+		issues.push({
+			severity: "error",
+			rule: "duplicate-slug",
+			message: `Slug "${slug}" is used by ${sameSlug.map((post) => `"${post.Title}"`).join(", ")}; they build to the same URL`,
+		});
+	});
+
+	const footnoteMarkerPrefix: string | null = IN_PAGE_FOOTNOTES_ENABLED
+		? FOOTNOTES["in-page-footnotes-settings"]["marker-prefix"]
+		: null;
+	const citationFormat: string | null = BIBTEX_CITATIONS_ENABLED
+		? CITATIONS["extract-and-process-bibtex-citations"]["in-text-citation-format"]
+		: null;
+	const bibEntries = getBibEntriesCacheSnapshot();
+
+	for (const post of posts) {
+		if (post.IsExternal) continue;
+		const blocks = loadCachedBlocks(post);
+		if (!blocks) continue;
+
+		const postRef = { Title: post.Title, Slug: post.Slug, PageId: post.PageId };
+		const report = (
+			severity: ContentLintSeverity,
+			rule: ContentLintIssue["rule"],
+			message: string,
+			block: Block,
+		) => issues.push({ severity, rule, message, post: postRef, blockId: block.Id });
+
+		const checkLinkedPage = (pageId: string, block: Block) => {
+			const id = normalizePageId(pageId);
+			if (id === normalizePageId(post.PageId) || publishedIds.has(id)) return;
+			if (draftIds.has(id)) {
+				report("error", "internal-link", `Links to unpublished page ${pageId}`, block);
+			} else {
+				report(
+					"warning",
+					"internal-link",
+					`Links to page ${pageId}, which is not published on this site`,
+					block,
+				);
+			}
+		};
+
+		const lintRichTexts = (richTexts: RichText[], block: Block) => {
+			for (const richText of richTexts) {
+				if (richText.InternalHref?.PageId) checkLinkedPage(richText.InternalHref.PageId, block);
+				if (richText.Mention?.Page?.PageId) checkLinkedPage(richText.Mention.Page.PageId, block);
+			}
+			if (!citationFormat) return;
+			for (const { items } of findCitationMatches(richTexts, citationFormat) || []) {
+				for (const { Key: key } of items) {
+					if (!bibEntries.has(key)) {
+						report(
+							"error",
+							"missing-citation",
+							`Citation key "${key}" is not in any bib file`,
+							block,
+						);
+					}
+				}
+			}
+		};
+
+		const lintBlocks = (blocksToLint: Block[]) => {
+			for (const block of extractTargetBlocks(LINTED_BLOCK_TYPES, blocksToLint)) {
+				const locations = getAllRichTextLocations(block);
+				locations.forEach((location) => lintRichTexts(location.richTexts, block));
+
+				if (block.LinkToPage?.PageId) checkLinkedPage(block.LinkToPage.PageId, block);
+
+				if (footnoteMarkerPrefix) {
+					const defined = new Set((block.Footnotes || []).map((footnote) => footnote.Marker));
+					for (const marker of findAllFootnoteMarkers(locations, footnoteMarkerPrefix)) {
+						if (!defined.has(marker.Marker)) {
+							report(
+								"error",
+								"undefined-footnote",
+								`Footnote ${marker.FullMarker} has no definition`,
+								block,
+							);
+						}
+					}
+				}
+
+				// Footnote content is rendered too, so its links and citations need the same checks
+				for (const footnote of block.Footnotes || []) {
+					if (footnote.Content.RichTexts) lintRichTexts(footnote.Content.RichTexts, block);
+					if (footnote.Content.Blocks) lintBlocks(footnote.Content.Blocks);
+				}
+
+				if (block.NImage) {
+					const caption = joinPlainText(block.NImage.Caption || []);
+					const wideBreakout = SHORTCODES["wide-breakout"];
+					if (!(wideBreakout ? caption.replace(wideBreakout, "") : caption).trim()) {
+						report(
+							"warning",
+							"image-caption",
+							"Image has no caption, so it has no alt text",
+							block,
+						);
+					}
+				}
+
+				if (block.Code) {
+					for (const problem of lintCodeBlock(block)) {
+						report("warning", "code-shortcode", `Code block: ${problem}`, block);
+					}
+				}
+			}
+		};
+
+		lintBlocks(blocks);
+	}
+
+	return issues.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
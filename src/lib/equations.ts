@@ -0,0 +1,173 @@
+import type { Block, EquationReference, RichText } from "./interfaces";
+import { extractTargetBlocks } from "./blog-helpers";
+import { cloneRichText, getAllRichTextLocations } from "../utils/richtext-utils";
+
+const LABEL_PATTERN = /\\label\{([^}]*)\}/;
+const TAG_PATTERN = /\\tag\*?\{([^}]*)\}/;
+const REFERENCE_PATTERN = /\\(eqref|ref)\{([^}]+)\}/g;
+
+// Every block type getAllRichTextLocations reads
+export const REFERENCING_BLOCK_TYPES = [
+	"paragraph",
+	"heading_1",
+	"heading_2",
+	"heading_3",
+	"heading_4",
+	"bulleted_list_item",
+	"numbered_list_item",
+	"to_do",
+	"quote",
+	"callout",
+	"toggle",
+	"code",
+	"image",
+	"video",
+	"audio",
+	"file",
+	"pdf",
+	"embed",
+	"bookmark",
+	"link_preview",
+	"table",
+];
+
+/**
+ * Splits a block equation into the expression KaTeX renders and its \label/\tag, which KaTeX
+ * either does not support or only supports in display mode.
+ */
+export function parseEquationExpression(expression: string): {
+	expression: string;
+	label: string | null;
+	tag: string | null;
+} {
+	const label = expression.match(LABEL_PATTERN)?.[1]?.trim() || null;
+	const tag = expression.match(TAG_PATTERN)?.[1]?.trim() || null;
+	return {
+		expression: expression.replace(LABEL_PATTERN, "").replace(TAG_PATTERN, "").trim(),
+		label,
+		tag,
+	};
+}
+
+function createReferenceText(
+	source: RichText,
+	fullMatch: string,
+	reference: EquationReference,
+): RichText {
+	const { Equation: _equation, ...rest } = cloneRichText(source);
+	return {
+		...rest,
+		PlainText: fullMatch,
+		Text: { Content: fullMatch },
+		EquationRef: reference,
+	};
+}
+
+// Plain text references are split out of their segment; an inline equation that is only a
+// reference becomes one. Code and existing markers are left alone.
+function extractReferences(
+	richTexts: RichText[],
+	resolve: (label: string, command: "eqref" | "ref") => EquationReference,
+): RichText[] | null {
+	let changed = false;
+	const result: RichText[] = [];
+
+	for (const richText of richTexts) {
+		if (richText.EquationRef) {
+			const { Label, Command } = richText.EquationRef;
+			richText.EquationRef = resolve(Label, Command);
+			result.push(richText);
+			continue;
+		}
+
+		const expression = richText.Equation?.Expression.trim();
+		const equationMatch = expression?.match(/^\\(eqref|ref)\{([^}]+)\}$/);
+		if (equationMatch) {
+			const command = equationMatch[1] as "eqref" | "ref";
+			result.push(
+				createReferenceText(richText, expression!, resolve(equationMatch[2]!.trim(), command)),
+			);
+			changed = true;
+			continue;
+		}
+
+		const content = richText.Text?.Content;
+		if (!content || richText.Annotation.Code || !content.includes("ref{")) {
+			result.push(richText);
+			continue;
+		}
+
+		let lastIndex = 0;
+		for (const match of content.matchAll(REFERENCE_PATTERN)) {
+			if (match.index > lastIndex) {
+				const before = cloneRichText(richText);
+				before.Text!.Content = content.slice(lastIndex, match.index);
+				before.PlainText = before.Text!.Content;
+				result.push(before);
+			}
+			const command = match[1] as "eqref" | "ref";
+			result.push(createReferenceText(richText, match[0], resolve(match[2]!.trim(), command)));
+			lastIndex = match.index + match[0].length;
+			changed = true;
+		}
+		if (lastIndex === 0) {
+			result.push(richText);
+		} else if (lastIndex < content.length) {
+			const after = cloneRichText(richText);
+			after.Text!.Content = content.slice(lastIndex);
+			after.PlainText = after.Text!.Content;
+			result.push(after);
+		}
+	}
+
+	return changed ? result : null;
+}
+
+/**
+ * Numbers the block equations of a page that have a \label or \tag (a \tag shows as given and
+ * does not advance the count), then turns \eqref{...} and \ref{...} in rich text into
+ * references to them. Safe to run again on blocks it has already processed.
+ */
+export function numberEquations(blocks: Block[]): void {
+	const equationsByLabel = new Map<
+		string,
+		{ Number: string; BlockId: string; Expression: string }
+	>();
+	let count = 0;
+
+	for (const block of extractTargetBlocks(["equation"], blocks)) {
+		if (!block.Equation) continue;
+		const { expression, label, tag } = parseEquationExpression(block.Equation.Expression);
+		const number = tag ?? (label ? String(++count) : null);
+		block.Equation.Label = label ?? undefined;
+		block.Equation.Number = number ?? undefined;
+		if (label && number && !equationsByLabel.has(label)) {
+			equationsByLabel.set(label, { Number: number, BlockId: block.Id, Expression: expression });
+		}
+	}
+
+	const resolve = (label: string, command: "eqref" | "ref"): EquationReference => ({
+		Label: label,
+		Command: command,
+		...equationsByLabel.get(label),
+	});
+
+	const processBlocks = (blocksToProcess: Block[]) => {
+		for (const block of extractTargetBlocks(REFERENCING_BLOCK_TYPES, blocksToProcess)) {
+			// Code blocks keep their text as written; only the caption can hold a reference
+			for (const location of getAllRichTextLocations(block)) {
+				const updated = extractReferences(location.richTexts, resolve);
+				if (updated) location.setter(updated);
+			}
+			for (const footnote of block.Footnotes || []) {
+				if (footnote.Content.RichTexts) {
+					const updated = extractReferences(footnote.Content.RichTexts, resolve);
+					if (updated) footnote.Content.RichTexts = updated;
+				}
+				if (footnote.Content.Blocks) processBlocks(footnote.Content.Blocks);
+			}
+		}
+	};
+
+	processBlocks(blocks);
+}
@@ -7,7 +7,11 @@ import { buildMarkdownBlocks } from "./markdown-block-builder";
 import { buildHeadings } from "@/utils";
 import { extractPageContent } from "@/lib/blog-helpers";
 import { adjustedFootnotesConfig, getBibEntriesCacheSnapshot } from "@/lib/notion/client";
-import { extractCitationsFromBlock } from "@/lib/citations";
+import {
+	applyCitationStyle,
+	extractCitationsFromBlock,
+	getCitationStyleForCollection,
+} from "@/lib/citations";
 import {
 	loadExternalRenderCache,
 	readExternalFolderVersion,
@@ -85,6 +89,7 @@ export async function renderExternalMarkdown(post: Post): Promise<MarkdownRender
 				}
 			};
 			walk(blocks);
+			applyCitationStyle(blocks, null, getCitationStyleForCollection(post.Collection), bibEntries);
 		}
 	}
 
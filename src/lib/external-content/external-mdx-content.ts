@@ -8,7 +8,11 @@ import { buildMarkdownBlocks } from "./markdown-block-builder";
 import { buildHeadings } from "@/utils";
 import { extractPageContent } from "@/lib/blog-helpers";
 import { adjustedFootnotesConfig, getBibEntriesCacheSnapshot } from "@/lib/notion/client";
-import { extractCitationsFromBlock } from "@/lib/citations";
+import {
+	applyCitationStyle,
+	extractCitationsFromBlock,
+	getCitationStyleForCollection,
+} from "@/lib/citations";
 
 // Ensures that there is a blank line after imports/exports in the MDX source.
 // This prevents issues where some MDX parsers fail if content immediately follows imports.
@@ -118,6 +122,7 @@ export async function renderExternalMdx(post: Post): Promise<ExternalMdxRenderRe
 				}
 			};
 			walk(blocks);
+			applyCitationStyle(blocks, null, getCitationStyleForCollection(post.Collection), bibEntries);
 		}
 	}
 
@@ -0,0 +1,309 @@
+import type { Block, FigureInPage, FigureKind, FigureReference, RichText } from "./interfaces";
+import { FIGURE_NUMBERING, SHORTCODES, THEOREM_ENVIRONMENTS } from "../constants";
+import { extractTargetBlocks } from "./blog-helpers";
+import { REFERENCING_BLOCK_TYPES } from "./equations";
+import { isGraphvizCode } from "./graphviz";
+import { cloneRichText, getAllRichTextLocations, joinPlainText } from "../utils/richtext-utils";
+
+const FIGURE_BLOCK_TYPES = ["image", "video", "embed", "code", "table"];
+
+// @label after a space, bracket or line start, so e-mail addresses and [@citations] are skipped;
+// a trailing period or colon ends the sentence, not the label
+const REFERENCE_PATTERN = /(?<![\w@[])@([\w-]+(?:[:.][\w-]+)*)/g;
+
+// Unknown labels with these prefixes still become (broken) references, so typos show up
+const KNOWN_PREFIXES = /^(?:fig|tbl|lst|thm|lem|def):/;
+
+export const FIGURE_CAPTION_PREFIX: Record<FigureKind, string> = {
+	figure: "Figure",
+	table: "Table",
+	listing: "Listing",
+};
+
+export const FIGURE_REFERENCE_PREFIX: Record<FigureKind, string> = {
+	figure: "Fig.",
+	table: "Table",
+	listing: "Listing",
+};
+
+// Numbered blocks of the pages loaded so far, for reference popovers
+const figureBlocksById = new Map<string, Block>();
+
+/** The text a resolved reference shows, e.g. "Fig. 3", "Table 1" or "Lemma 2". */
+export function getFigureReferenceText(reference: FigureReference): string {
+	if (!reference.BlockId) return `@${reference.Label}`;
+	const prefix = reference.Environment ?? FIGURE_REFERENCE_PREFIX[reference.Kind ?? "figure"];
+	return reference.Number ? `${prefix} ${reference.Number}` : prefix;
+}
+
+function unlinkReferences(richTexts: RichText[]): RichText[] {
+	return richTexts.map((richText) => {
+		if (!richText.FigureRef) return richText;
+		const { FigureRef, ...rest } = richText;
+		const text = getFigureReferenceText(FigureRef);
+		return { ...rest, PlainText: text, Text: { Content: text } };
+	});
+}
+
+/**
+ * A numbered block for a reference preview. References in its own caption (or table cells)
+ * become plain text, so a figure that mentions another cannot nest previews endlessly.
+ */
+export function getFigurePreviewBlock(blockId: string): Block | undefined {
+	const block = figureBlocksById.get(blockId);
+	switch (block?.Type) {
+		case "image":
+			return {
+				...block,
+				NImage: { ...block.NImage!, Caption: unlinkReferences(block.NImage!.Caption) },
+			};
+		case "video":
+			return {
+				...block,
+				Video: { ...block.Video!, Caption: unlinkReferences(block.Video!.Caption) },
+			};
+		case "embed":
+			return {
+				...block,
+				Embed: { ...block.Embed!, Caption: unlinkReferences(block.Embed!.Caption) },
+			};
+		case "code":
+			return { ...block, Code: { ...block.Code!, Caption: unlinkReferences(block.Code!.Caption) } };
+		case "callout":
+			return {
+				...block,
+				Callout: { ...block.Callout!, RichTexts: unlinkReferences(block.Callout!.RichTexts) },
+			};
+		case "table":
+			return {
+				...block,
+				Table: {
+					...block.Table!,
+					Rows: block.Table!.Rows.map((row) => ({
+						...row,
+						Cells: row.Cells.map((cell) => ({
+							...cell,
+							RichTexts: unlinkReferences(cell.RichTexts),
+						})),
+					})),
+				},
+			};
+		default:
+			return undefined;
+	}
+}
+
+function getCaptionRichTexts(block: Block): RichText[] | null {
+	switch (block.Type) {
+		case "image":
+			return block.NImage?.Caption ?? null;
+		case "video":
+			return block.Video?.Caption ?? null;
+		case "embed":
+			return block.Embed?.Caption ?? null;
+		case "code":
+			return block.Code?.Caption ?? null;
+		case "table":
+			// Tables have no caption; the label goes in the first cell, like the table shortcodes
+			return block.Table?.Rows?.[0]?.Cells?.[0]?.RichTexts ?? null;
+		default:
+			return null;
+	}
+}
+
+function getFigureKind(block: Block): FigureKind {
+	if (block.Type === "table") return "table";
+	if (block.Type === "code" && block.Code) {
+		const code = joinPlainText(block.Code.RichTexts);
+		return isGraphvizCode(code, block.Code.Language) ? "figure" : "listing";
+	}
+	return "figure";
+}
+
+/** Removes the first label shortcode from the rich texts in place and returns the label. */
+export function extractLabel(richTexts: RichText[]): string | null {
+	const shortcode = SHORTCODES["figure-label"];
+	if (!shortcode?.start || !shortcode?.end) return null;
+
+	for (const richText of richTexts) {
+		const content = richText.Text?.Content;
+		if (!content) continue;
+		const start = content.indexOf(shortcode.start);
+		if (start === -1) continue;
+		const end = content.indexOf(shortcode.end, start + shortcode.start.length);
+		if (end === -1) continue;
+		const label = content.slice(start + shortcode.start.length, end).trim();
+		if (!label) continue;
+
+		const before = content.slice(0, start).trimEnd();
+		const after = content.slice(end + shortcode.end.length).trimStart();
+		richText.Text!.Content = before && after ? `${before} ${after}` : before || after;
+		richText.PlainText = richText.Text!.Content;
+		return label;
+	}
+	return null;
+}
+
+// Caption text for the list of figures, without the markers stripped at render time
+function getListCaption(block: Block, richTexts: RichText[]): string {
+	if (block.Type === "table") return "";
+	let caption = joinPlainText(richTexts);
+	for (const marker of [SHORTCODES["wide-breakout"], SHORTCODES["code-group"]]) {
+		if (marker) caption = caption.replace(marker, "");
+	}
+	return caption.trim();
+}
+
+function createReferenceText(
+	source: RichText,
+	fullMatch: string,
+	reference: FigureReference,
+): RichText {
+	return {
+		...cloneRichText(source),
+		PlainText: fullMatch,
+		Text: { Content: fullMatch },
+		FigureRef: reference,
+	};
+}
+
+// Plain text references to known labels are split out of their segment; code is left alone
+function extractReferences(
+	richTexts: RichText[],
+	resolve: (label: string) => FigureReference | null,
+): RichText[] | null {
+	let changed = false;
+	const result: RichText[] = [];
+
+	for (const richText of richTexts) {
+		if (richText.FigureRef) {
+			const { Label } = richText.FigureRef;
+			richText.FigureRef = resolve(Label) ?? { Label };
+			result.push(richText);
+			continue;
+		}
+
+		const content = richText.Text?.Content;
+		if (
+			!content ||
+			richText.Annotation.Code ||
+			richText.IsCitationMarker ||
+			richText.IsFootnoteMarker ||
+			richText.EquationRef ||
+			!content.includes("@")
+		) {
+			result.push(richText);
+			continue;
+		}
+
+		let lastIndex = 0;
+		for (const match of content.matchAll(REFERENCE_PATTERN)) {
+			const reference = resolve(match[1]!);
+			if (!reference) continue;
+			if (match.index > lastIndex) {
+				const before = cloneRichText(richText);
+				before.Text!.Content = content.slice(lastIndex, match.index);
+				before.PlainText = before.Text!.Content;
+				result.push(before);
+			}
+			result.push(createReferenceText(richText, match[0], reference));
+			lastIndex = match.index + match[0].length;
+			changed = true;
+		}
+		if (lastIndex === 0) {
+			result.push(richText);
+		} else if (lastIndex < content.length) {
+			const after = cloneRichText(richText);
+			after.Text!.Content = content.slice(lastIndex);
+			after.PlainText = after.Text!.Content;
+			result.push(after);
+		}
+	}
+
+	return changed ? result : null;
+}
+
+/**
+ * Numbers the figures, tables and code listings of a page that carry a figure-label shortcode
+ * (or, with number-unlabelled, every captioned one), each kind counted on its own. Then turns
+ * @label in rich text into references to them and to the labelled theorem-like environments
+ * numbered by numberTheorems. Returns the numbered blocks for the list of figures. Safe to run
+ * again on blocks it has already processed.
+ */
+export function numberFigures(blocks: Block[]): FigureInPage[] {
+	if (!FIGURE_NUMBERING.enabled && !THEOREM_ENVIRONMENTS.enabled) return [];
+
+	const figuresByLabel = new Map<string, Omit<FigureReference, "Label">>();
+	const counts: Record<FigureKind, number> = { figure: 0, table: 0, listing: 0 };
+	const figures: FigureInPage[] = [];
+	const codeGroupMarker = SHORTCODES["code-group"];
+
+	const figureBlocks = FIGURE_NUMBERING.enabled
+		? extractTargetBlocks(FIGURE_BLOCK_TYPES, blocks)
+		: [];
+	for (const block of figureBlocks) {
+		const richTexts = getCaptionRichTexts(block);
+		if (!richTexts) continue;
+		// Code group tabs use their caption as the tab label
+		if (codeGroupMarker && joinPlainText(richTexts).trimStart().startsWith(codeGroupMarker)) {
+			continue;
+		}
+
+		const label = block.Figure?.Label ?? extractLabel(richTexts);
+		const hasCaption = block.Type === "table" || joinPlainText(richTexts).trim().length > 0;
+		if (!label && !(FIGURE_NUMBERING.numberUnlabelled && hasCaption)) {
+			block.Figure = undefined;
+			continue;
+		}
+
+		const kind = getFigureKind(block);
+		const number = ++counts[kind];
+		block.Figure = { Kind: kind, Number: number, Label: label ?? undefined };
+		figureBlocksById.set(block.Id, block);
+		figures.push({
+			BlockId: block.Id,
+			Kind: kind,
+			Number: number,
+			Caption: getListCaption(block, richTexts),
+		});
+		if (label && !figuresByLabel.has(label)) {
+			figuresByLabel.set(label, { Kind: kind, Number: number, BlockId: block.Id });
+		}
+	}
+
+	for (const block of extractTargetBlocks(["callout"], blocks)) {
+		const theorem = block.Callout?.Theorem;
+		if (!theorem?.Label || figuresByLabel.has(theorem.Label)) continue;
+		figureBlocksById.set(block.Id, block);
+		figuresByLabel.set(theorem.Label, {
+			Environment: theorem.Keyword,
+			Number: theorem.Number,
+			BlockId: block.Id,
+		});
+	}
+
+	const resolve = (label: string): FigureReference | null => {
+		const figure = figuresByLabel.get(label);
+		if (figure) return { Label: label, ...figure };
+		return KNOWN_PREFIXES.test(label) ? { Label: label } : null;
+	};
+
+	const processBlocks = (blocksToProcess: Block[]) => {
+		for (const block of extractTargetBlocks(REFERENCING_BLOCK_TYPES, blocksToProcess)) {
+			for (const location of getAllRichTextLocations(block)) {
+				const updated = extractReferences(location.richTexts, resolve);
+				if (updated) location.setter(updated);
+			}
+			for (const footnote of block.Footnotes || []) {
+				if (footnote.Content.RichTexts) {
+					const updated = extractReferences(footnote.Content.RichTexts, resolve);
+					if (updated) footnote.Content.RichTexts = updated;
+				}
+				if (footnote.Content.Blocks) processBlocks(footnote.Content.Blocks);
+			}
+		}
+	};
+
+	processBlocks(blocks);
+	return figures;
+}
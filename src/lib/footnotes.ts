@@ -9,6 +9,7 @@ import type {
 	CommentAttachment,
 } from "./interfaces";
 import { downloadFile, _buildRichText } from "./notion/client";
+import type { ContentSource } from "./notion/content-source";
 import {
 	cloneRichText,
 	joinPlainText,
@@ -35,7 +36,7 @@ function getActiveSource(
 	return null;
 }
 
-function findAllFootnoteMarkers(
+export function findAllFootnoteMarkers(
 	locations: RichTextLocation[],
 	markerPrefix: string,
 ): FootnoteMarkerInfo[] {
@@ -482,7 +483,7 @@ function extractStartOfChildBlocksFootnotes(
 async function extractBlockCommentsFootnotes(
 	block: Block,
 	config: FootnotesConfig,
-	notionClient?: any,
+	contentSource?: ContentSource,
 ): Promise<FootnoteExtractionResult> {
 	const locations = getAllRichTextLocations(block);
 	const footnotes: Footnote[] = [];
@@ -500,9 +501,9 @@ async function extractBlockCommentsFootnotes(
 		};
 	}
 
-	// Ensure we have a Notion client
-	if (!notionClient || !notionClient.comments) {
-		console.warn("Footnotes: Comments API requested but Notion client not available");
+	// Ensure we have a content source to read comments from
+	if (!contentSource) {
+		console.warn("Footnotes: Comments API requested but no content source available");
 		return {
 			footnotes: [],
 			hasProcessedRichTexts: false,
@@ -513,7 +514,7 @@ async function extractBlockCommentsFootnotes(
 	try {
 		// Only fetch comments if we found footnote markers
 		// This saves expensive API calls for blocks without footnotes
-		const response: any = await notionClient.comments.list({
+		const response = await contentSource.listComments({
 			block_id: block.Id,
 		});
 
@@ -847,7 +848,7 @@ function extractInlineLatexFootnotes(
 export async function extractFootnotesFromBlock(
 	block: Block,
 	config: FootnotesConfig,
-	notionClient?: any,
+	contentSource?: ContentSource,
 ): Promise<FootnoteExtractionResult> {
 	const source = getActiveSource(config);
 
@@ -857,7 +858,7 @@ export async function extractFootnotesFromBlock(
 		case "start-of-child-blocks":
 			return extractStartOfChildBlocksFootnotes(block, config);
 		case "block-comments":
-			return await extractBlockCommentsFootnotes(block, config, notionClient);
+			return await extractBlockCommentsFootnotes(block, config, contentSource);
 		case "inline-latex-footnote-command":
 			return extractInlineLatexFootnotes(block, config);
 		default:
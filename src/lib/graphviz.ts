@@ -0,0 +1,68 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { instance, type Viz } from "@viz-js/viz";
+import { BUILD_FOLDER_PATHS } from "../constants";
+
+const GRAPHVIZ_LANGUAGES = ["dot", "graphviz"];
+
+// Notion's language picker has no DOT, so plain text blocks that open a graph count too
+const DOT_GRAPH_START = /^\s*(?:strict\s+)?(?:di)?graph\b[^{]*\{/i;
+
+let vizInstance: Promise<Viz> | null = null;
+
+function getViz(): Promise<Viz> {
+	if (!vizInstance) vizInstance = instance();
+	return vizInstance;
+}
+
+export function isGraphvizCode(code: string, language: string): boolean {
+	if (GRAPHVIZ_LANGUAGES.includes(language)) return true;
+	return language === "plaintext" && DOT_GRAPH_START.test(code);
+}
+
+// Graphviz numbers its ids per diagram (graph0, node1, edge1...), so they collide on a page
+// with more than one diagram; the prolog and comments are dropped for inlining. The
+// data-graphviz attribute lets the RSS sanitizer tell diagrams from icons.
+function cleanSvg(svg: string): string {
+	return svg
+		.replace(/<\?xml[^>]*>\s*/, "")
+		.replace(/<!DOCTYPE[^>]*>\s*/, "")
+		.replace(/<!--[\s\S]*?-->\s*/g, "")
+		.replace(/ id="(?:graph|node|edge|clust)\d+"/g, "")
+		.replace(/<svg\b/, '<svg data-graphviz="true"')
+		.trim();
+}
+
+/**
+ * Renders DOT source to an inline SVG with the WASM build of Graphviz. Results are cached in
+ * tmp/ by content hash, so unchanged diagrams are not re-rendered on later builds.
+ * Returns null when the source has errors, so the block can fall back to showing the code.
+ */
+export async function renderGraphvizToSvg(dot: string): Promise<string | null> {
+	const hash = crypto.createHash("md5").update(dot).digest("hex");
+	const cachePath = path.join(BUILD_FOLDER_PATHS["graphvizCache"], `${hash}.svg`);
+	try {
+		return fs.readFileSync(cachePath, "utf-8");
+	} catch {
+		// cache miss
+	}
+
+	const viz = await getViz();
+	const result = viz.render(dot, { format: "svg" });
+	if (result.status !== "success") {
+		console.warn(
+			`[graphviz] Could not render diagram: ${result.errors.map((error) => error.message).join("; ")}`,
+		);
+		return null;
+	}
+
+	const svg = cleanSvg(result.output);
+	try {
+		fs.mkdirSync(BUILD_FOLDER_PATHS["graphvizCache"], { recursive: true });
+		fs.writeFileSync(cachePath, svg, "utf-8");
+	} catch (error) {
+		console.warn("[graphviz] Could not cache rendered diagram.", error);
+	}
+	return svg;
+}
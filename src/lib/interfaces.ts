@@ -36,6 +36,16 @@ export interface Post {
 	 * - AuthorProperty[]: One or more authors assigned to this post
 	 */
 	Authors?: AuthorProperty[] | undefined;
+	/** Set on sub-pages built from child_page blocks; points at the page they are nested under. */
+	ParentPageId?: string | undefined;
+	/** Set on unpublished or scheduled entries in preview builds; these live under /preview/. */
+	IsDraft?: boolean | undefined;
+	/** Set when the entry belongs to a series (mapped select or relation property). */
+	Series?: SeriesProperty | undefined;
+	/** BCP 47 language code from the mapped language property; undefined means the site language. */
+	Language?: string | undefined;
+	/** Page ids of entries related as translations of this one (as set on this entry only). */
+	TranslationPageIds?: string[] | undefined;
 }
 
 export type ExternalContentType = "html" | "markdown" | "mdx";
@@ -63,6 +73,7 @@ export interface Block {
 	NImage?: NImage;
 	NAudio?: NAudio;
 	File?: File;
+	NPdf?: NPdf;
 	Code?: Code;
 	MdxSnippet?: {
 		PageId: string;
@@ -80,15 +91,19 @@ export interface Block {
 	Bookmark?: Bookmark;
 	LinkPreview?: LinkPreview;
 	Table?: Table;
+	ChildDatabase?: ChildDatabase;
 	ColumnList?: ColumnList;
 	TableOfContents?: TableOfContents;
 	LinkToPage?: LinkToPage;
+	ChildPage?: ChildPage;
 	ListItems?: Block[];
 
 	// Footnotes (populated by extractFootnotes during build)
 	Footnotes?: Footnote[] | undefined;
 	// Citations (populated by extractCitations during build)
 	Citations?: Citation[] | undefined;
+	// Figure, table or listing number (set by numberFigures during build)
+	Figure?: FigureNumber | undefined;
 }
 
 export interface InterlinkedContentInPage {
@@ -180,6 +195,13 @@ export interface NAudio {
 	File?: FileObject;
 }
 
+export interface NPdf {
+	Caption: RichText[];
+	Type: string;
+	File?: FileObject;
+	External?: External;
+}
+
 export interface File {
 	Caption: RichText[];
 	Type: string;
@@ -230,6 +252,44 @@ export interface Quote {
 
 export interface Equation {
 	Expression: string;
+	// Set by numberEquations on block equations with \label{...} or \tag{...}
+	Label?: string | undefined;
+	Number?: string | undefined;
+}
+
+export interface EquationReference {
+	Label: string;
+	Command: "eqref" | "ref";
+	// Unset when no block equation on the page has this label
+	Number?: string | undefined;
+	BlockId?: string | undefined;
+	Expression?: string | undefined;
+}
+
+export type FigureKind = "figure" | "table" | "listing";
+
+export interface FigureNumber {
+	Kind: FigureKind;
+	Number: number;
+	Label?: string | undefined;
+}
+
+export interface FigureReference {
+	Label: string;
+	// Unset when no block on the page has this label
+	Kind?: FigureKind | undefined;
+	// Keyword of a referenced theorem-like environment, e.g. "Lemma"; Kind is unset then
+	Environment?: string | undefined;
+	Number?: number | undefined;
+	BlockId?: string | undefined;
+}
+
+/** One numbered block, as listed in the "List of figures" next to the TOC. */
+export interface FigureInPage {
+	BlockId: string;
+	Kind: FigureKind;
+	Number: number;
+	Caption: string;
 }
 
 export interface Callout {
@@ -237,6 +297,19 @@ export interface Callout {
 	Icon: FileObject | Emoji | null;
 	Color: string;
 	Children?: Block[] | undefined;
+	// Theorem-like environment, from a leading "Theorem:" keyword (set by numberTheorems during build)
+	Theorem?: TheoremEnvironment | undefined;
+}
+
+export interface TheoremEnvironment {
+	Keyword: string;
+	// Environments sharing a counter are numbered together; unset for unnumbered ones like proofs
+	Counter?: string | undefined;
+	Number?: number | undefined;
+	// Optional name in parentheses after the keyword, as in "Theorem (Fermat):"
+	Name?: string | undefined;
+	Label?: string | undefined;
+	Qed: boolean;
 }
 
 export interface SyncedBlock {
@@ -291,6 +364,30 @@ export interface TableCell {
 	RichTexts: RichText[];
 }
 
+/**
+ * Inline/child database rendered as a static snapshot. Columns follow the data source schema
+ * with the title property first; each row holds one TableCell per column.
+ */
+export interface ChildDatabase {
+	Title: string;
+	View: "table" | "list" | "gallery";
+	Columns: ChildDatabaseColumn[];
+	Rows: ChildDatabaseRow[];
+}
+
+export interface ChildDatabaseColumn {
+	Name: string;
+	Type: string;
+}
+
+export interface ChildDatabaseRow {
+	Id: string;
+	Url: string;
+	Icon: FileObject | Emoji | null;
+	Cover: FileObject | null;
+	Cells: TableCell[];
+}
+
 export interface ColumnList {
 	Columns: Column[];
 }
@@ -307,6 +404,11 @@ export type List = Block & {
 	ListItems: Block[];
 };
 
+export type CodeGroup = Block & {
+	Type: "code_group";
+	ListItems: Block[];
+};
+
 export interface TableOfContents {
 	Color: string;
 }
@@ -325,8 +427,16 @@ export interface RichText {
 	IsFootnoteMarker?: boolean | undefined;
 
 	// Citation marker (set by extractCitations during build)
-	CitationRef?: string | undefined; // e.g., "smith2020" (citation key)
+	CitationRef?: string | undefined; // e.g., "smith2020" (citation key, the first one in a group)
 	IsCitationMarker?: boolean | undefined;
+	CitationItems?: CitationItem[] | undefined; // Every work in the citation, with locators and affixes
+	CitationLabel?: string | undefined; // In-text label from an author-date style, e.g. "(see Smith, 2020, p. 12)"
+
+	// Equation reference, \eqref{...} or \ref{...} (set by numberEquations during build)
+	EquationRef?: EquationReference | undefined;
+
+	// Figure, table or listing reference, @label (set by numberFigures during build)
+	FigureRef?: FigureReference | undefined;
 }
 
 export interface Text {
@@ -370,17 +480,51 @@ export interface AuthorProperty extends SelectProperty {
 	bio?: string | undefined;
 }
 
+/**
+ * Series membership of a post. Order is the mapped series-order value, null when not set.
+ */
+export interface SeriesProperty {
+	Name: string;
+	Slug: string;
+	Order: number | null;
+}
+
+/** A series with its parts in reading order. */
+export interface Series {
+	Name: string;
+	Slug: string;
+	Description: string;
+	Posts: Post[];
+}
+
 export interface LinkToPage {
 	Type: string;
 	PageId: string;
 }
 
+export interface ChildPage {
+	Title: string;
+}
+
 export interface Mention {
 	Type: string;
 	Page?: InterlinkedContent | undefined;
 	DateStr?: string | undefined;
 	LinkMention?: LinkMention | undefined;
 	CustomEmoji?: CustomEmojiMention | undefined;
+	User?: UserMention | undefined;
+	Database?: DatabaseMention | undefined;
+}
+
+export interface UserMention {
+	Id: string;
+	Name: string;
+}
+
+export interface DatabaseMention {
+	Id: string;
+	Title: string;
+	PublicUrl?: string | undefined;
 }
 
 export interface LinkMention {
@@ -410,6 +554,7 @@ export type BlockTypes =
 	| "bookmark"
 	| "breadcrumb"
 	| "code"
+	| "code_group"
 	| "bulleted_list_item"
 	| "bulleted_list"
 	| "callout"
@@ -551,8 +696,10 @@ export interface RichTextLocation {
  */
 export interface Citation {
 	Key: string; // e.g., "smith2020"
-	Index?: number | undefined; // Sequential index for IEEE style (1, 2, 3...)
+	Index?: number | undefined; // Order of first appearance (1, 2, 3...), shown by numeric and note styles
 	FormattedEntry: string; // HTML formatted bibliography entry (dynamically selected based on style)
+	Style?: CitationStyle | undefined; // CSL style the entry and label were rendered with
+	Label?: string | undefined; // In-text label from an author-date style, e.g. "(Smith & Jones, 2020)"
 	Authors: string; // "Smith et al." or "Smith, J."
 	Year: string; // "2020"
 	Url?: string | undefined; // URL to the cited work
@@ -561,8 +708,43 @@ export interface Citation {
 	FirstAppearanceIndex?: number; // Order of first occurrence in document
 	FirstAppearanceInMainContentIndex?: number; // Sequential index for first appearance in main content specifically (ignoring footnote content)
 	IsInFootnoteContent?: boolean; // True if citation appears in footnote content
+	Locators?: string[] | undefined; // Locators the work is cited with in the page, e.g. ["p. 12", "ch. 3"]
+}
+
+/**
+ * One work in an in-text citation, e.g. "see @smith2020, p. 12" in "[see @smith2020, p. 12; @lee2019]"
+ */
+export interface CitationItem {
+	Key: string;
+	Prefix?: string | undefined; // "see"
+	Suffix?: string | undefined; // "and passim"
+	Locator?: string | undefined; // "12", "33-35"
+	LocatorLabel?: string | undefined; // CSL locator label: "page", "chapter", "section"...
+	SuppressAuthor?: boolean | undefined; // [-@key]: only the year in author-date styles
+}
+
+/**
+ * A name in a CSL-JSON item: a person's family and given names, or a literal (e.g. an organization)
+ */
+export interface CslName {
+	family?: string | undefined;
+	given?: string | undefined;
+	literal?: string | undefined;
 }
 
+/**
+ * A CSL-JSON item, typed for the fields the site reads; citeproc reads the rest
+ */
+export type CslItem = Record<string, unknown> & {
+	id?: string | number | undefined;
+	"citation-key"?: string | undefined;
+	title?: string | undefined;
+	URL?: string | undefined;
+	author?: CslName[] | undefined;
+	issued?: { "date-parts"?: (string | number)[][] | undefined } | undefined;
+	year?: string | number | undefined;
+};
+
 /**
  * Parsed and formatted citation entry stored in cache
  * This is the minimal data we need for each citation
@@ -572,8 +754,25 @@ export interface ParsedCitationEntry {
 	authors: string; // Formatted authors string
 	year: string; // Publication year
 	url?: string; // URL to the citation source
-	ieee_formatted: string; // HTML formatted entry in IEEE style
-	apa_formatted: string; // HTML formatted entry in APA style
+	csl?: CslItem | undefined; // CSL-JSON item, rendered on demand in the configured style
+	ieee_formatted?: string | undefined; // HTML formatted entry in IEEE style (older caches)
+	apa_formatted?: string | undefined; // HTML formatted entry in APA style (older caches)
+}
+
+/**
+ * How a CSL style shows citations in the text
+ */
+export type CitationStyleFormat = "numeric" | "author-date" | "note";
+
+/**
+ * A loaded CSL style with the affixes of its citation layout, e.g. "[" and "]"
+ */
+export interface CitationStyle {
+	Id: string; // Style id or .csl path from the config
+	Format: CitationStyleFormat;
+	Prefix: string;
+	Suffix: string;
+	Superscript: boolean;
 }
 
 /**
@@ -583,12 +782,15 @@ export interface CitationsConfig {
 	"add-cite-this-post-section": boolean;
 	"extract-and-process-bibtex-citations": {
 		enabled: boolean;
-		"bibtex-file-url-list": string[];
+		"bibtex-file-url-list": string[]; // URLs or repo-relative paths of .bib, CSL-JSON or RIS files
 		"in-text-citation-format": string; // "[@key]", "\cite{key}", or "#cite(key)"
-		"bibliography-format": {
-			"simplified-ieee": boolean;
-			apa: boolean;
-		};
+		"bibliography-format":
+			| string // CSL style id or .csl path
+			| {
+					"simplified-ieee": boolean;
+					apa: boolean;
+			  };
+		"bibliography-format-by-collection"?: Record<string, string>;
 		"generate-bibliography-section": boolean;
 		"show-in-margin-on-large-screens": boolean;
 	};
@@ -598,7 +800,7 @@ export interface CitationsConfig {
  * Information about a BibTeX source URL
  */
 export interface BibSourceInfo {
-	source: "github-gist" | "github-repo" | "dropbox" | "google-drive" | "unknown";
+	source: "local" | "github-gist" | "github-repo" | "dropbox" | "google-drive" | "unknown";
 	download_url: string;
 	updated_url: string | null; // null if no public timestamp available
 	updated_instructions: string | null;
@@ -611,3 +813,31 @@ export interface CitationExtractionResult {
 	citations: Citation[];
 	processedRichTexts: boolean;
 }
+
+/**
+ * A work cited anywhere on the site, for the /bibliography/ page
+ */
+export interface SiteBibliographyEntry {
+	Key: string;
+	FormattedEntry: string; // HTML, in bibliography-format
+	Authors: string;
+	Year: string;
+	CitedIn: { Post: Post; BlockIds: string[] }[]; // Citing posts, newest first, with the blocks that cite it
+	Tags: string[]; // Tags of the citing posts
+}
+
+/**
+ * How to cite a post, for the Cite this page section, its downloads and citation_* meta tags
+ */
+export interface PageCitation {
+	Key: string; // BibTeX key, e.g. "yan2024aligneval"
+	Title: string;
+	Authors: string[]; // As written, "Firstname Lastname"
+	Year: number;
+	Month?: number | undefined;
+	Day?: number | undefined;
+	Url: string;
+	SiteTitle: string;
+	Hostname: string;
+	Language: string;
+}
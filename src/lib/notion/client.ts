@@ -2,12 +2,15 @@ import fs from "node:fs";
 import axios from "axios";
 import type { AxiosResponse } from "axios";
 import sharp from "sharp";
-import retry from "async-retry";
 import ExifTransformer from "exif-be-gone";
 import pngToIco from "png-to-ico";
 import path from "node:path";
 import {
 	NOTION_API_SECRET,
+	NOTION_FIXTURES_DIR,
+	NOTION_RECORD_FIXTURES_DIR,
+	NOTION_REQUESTS,
+	PREVIEW_DRAFTS,
 	DATABASE_ID,
 	DATA_SOURCE_ID,
 	MENU_PAGES_COLLECTION,
@@ -23,10 +26,16 @@ import {
 	AUTHORS_CONFIG,
 	AUTHOR_SHORTCODES,
 	AUTHOR,
+	SHORTCODES,
 } from "../../constants";
 import { resolveExternalContentDescriptor } from "../external-content/external-content-utils";
 import { extractFootnotesFromBlock } from "../../lib/footnotes";
-import { extractCitationsFromBlock } from "../../lib/citations";
+import {
+	applyCitationStyle,
+	extractCitationsFromBlock,
+	getCitationStyleForCollection,
+	prepareBibliography,
+} from "../../lib/citations";
 import type * as responses from "@/lib/notion/responses";
 import type * as requestParams from "@/lib/notion/request-params";
 import type {
@@ -49,6 +58,7 @@ import type {
 	Embed,
 	Video,
 	File,
+	NPdf,
 	Bookmark,
 	LinkPreview,
 	SyncedBlock,
@@ -56,6 +66,9 @@ import type {
 	Table,
 	TableRow,
 	TableCell,
+	ChildDatabase,
+	ChildDatabaseColumn,
+	ChildDatabaseRow,
 	Toggle,
 	ColumnList,
 	Column,
@@ -67,37 +80,72 @@ import type {
 	Emoji,
 	FileObject,
 	LinkToPage,
+	ChildPage,
 	Mention,
+	DatabaseMention,
 	InterlinkedContent,
 	NAudio,
 	InterlinkedContentInPage,
 	Footnote,
 	Citation,
+	FigureInPage,
 	ParsedCitationEntry,
 	AuthorProperty,
+	Series,
+	SeriesProperty,
 } from "@/lib/interfaces";
-// eslint-disable-next-line @typescript-eslint/no-var-requires
-import { Client, APIResponseError } from "@notionhq/client";
+import { createContentSource } from "./content-source";
+import { createRequestQueue } from "./request-queue";
+import {
+	buildDraftFilters,
+	buildEntriesFilters,
+	getMappedCheckbox,
+	getMappedDate,
+	getMappedFile,
+	getMappedNumber,
+	getMappedOptions,
+	getMappedRelationIds,
+	getMappedSchemaOptions,
+	getMappedText,
+	hasMappedProperty,
+	validatePropertyMapping,
+} from "./property-mapping";
 import { getFormattedDateWithTime } from "../../utils/date";
 import { slugify } from "../../utils/slugify";
+import { getPostLanguage, toLanguageTag } from "../../utils/language";
 import { writeMdxSnippet } from "./mdx-snippet-writer";
-import { extractPageContent } from "../../lib/blog-helpers";
+import { extractPageContent, extractTargetBlocks } from "../../lib/blog-helpers";
+import { getAllRichTextLocations } from "../../utils/richtext-utils";
+import { saveRevision } from "../../lib/revisions";
+import { numberEquations } from "../../lib/equations";
+import { numberFigures } from "../../lib/figures";
+import { numberTheorems } from "../../lib/theorems";
 import superjson from "superjson";
 
-const client = new Client({
+// Every Notion request goes through this queue (concurrency cap, Retry-After, backoff)
+const requestQueue = createRequestQueue({
+	concurrency: NOTION_REQUESTS.maxConcurrentRequests,
+	maxRetries: NOTION_REQUESTS.maxRetries,
+});
+
+const contentSource = createContentSource({
 	auth: NOTION_API_SECRET,
-	notionVersion: "2026-03-11",
+	queue: requestQueue,
+	fixturesDir: NOTION_FIXTURES_DIR,
+	recordDir: NOTION_RECORD_FIXTURES_DIR,
 });
 
 let resolvedDataSourceId: string | null = null;
 
-const numberOfRetry = 2;
-const minTimeout = 1000; // waits 1 second before the first retry
-const factor = 2; // doubles the wait time with each retry
-
 const inFlightDownloads = new Map<string, Promise<void>>();
+const databaseMentionCache = new Map<string, Promise<DatabaseMention>>();
+const seriesTitleCache = new Map<string, Promise<string>>();
 
 let allEntriesCache: Post[] | null = null;
+let allSubPagesCache: Post[] | null = null;
+let allDraftEntriesCache: Post[] | null = null;
+let allSeriesCache: Series[] | null = null;
+const blockCacheStats = { reused: 0, built: 0 };
 let dsCache: Database | null = null;
 let blockIdPostIdMap: { [key: string]: string } | null = null;
 type WorkspaceCustomEmoji = {
@@ -161,7 +209,7 @@ async function initializeFootnotesConfig(): Promise<void> {
 			);
 
 			try {
-				await client.comments.list({ block_id: "00000000-0000-0000-0000-000000000000" });
+				await contentSource.listComments({ block_id: "00000000-0000-0000-0000-000000000000" });
 				console.log("Footnotes: ✓ Permission confirmed - block-comments source available.");
 				adjustedFootnotesConfig = FOOTNOTES;
 			} catch (error: any) {
@@ -292,27 +340,9 @@ async function getResolvedDataSourceId(): Promise<string> {
 
 	console.log(`DATA_SOURCE_ID not provided, fetching from database: ${DATABASE_ID}`);
 
-	const response = await retry(
-		async (bail) => {
-			try {
-				return (await client.databases.retrieve({
-					database_id: DATABASE_ID,
-				})) as any;
-			} catch (error: unknown) {
-				if (error instanceof APIResponseError) {
-					if (error.status && error.status >= 400 && error.status < 500) {
-						bail(error);
-					}
-				}
-				throw error;
-			}
-		},
-		{
-			retries: numberOfRetry,
-			minTimeout: minTimeout,
-			factor: factor,
-		},
-	);
+	const response = (await contentSource.retrieveDatabase({
+		database_id: DATABASE_ID,
+	})) as any;
 
 	const dataSources = response.data_sources;
 
@@ -347,6 +377,15 @@ function loadBuildcache<T>(filename: string): T | null {
 
 type QueryFilters = requestParams.CompoundFilterObject;
 
+export function logNotionRequestStats(): void {
+	requestQueue.logStats();
+	if (blockCacheStats.reused + blockCacheStats.built > 0) {
+		console.log(
+			`Block cache: ${blockCacheStats.reused} blocks reused, ${blockCacheStats.built} rebuilt`,
+		);
+	}
+}
+
 export async function getAllEntries(): Promise<Post[]> {
 	if (allEntriesCache !== null) {
 		return allEntriesCache;
@@ -367,35 +406,19 @@ export async function getAllEntries(): Promise<Post[]> {
 	const queryFilters: QueryFilters = {};
 	const dataSourceId = await getResolvedDataSourceId();
 
+	const { propertiesRaw } = await getDataSource();
+	const { errors, warnings } = validatePropertyMapping(propertiesRaw);
+	warnings.forEach((warning) => console.warn(`Property mapping: ${warning}`));
+	if (errors.length > 0) {
+		throw new Error(
+			`The property-mapping in constants-config.json5 does not match the Notion data source:\n- ${errors.join("\n- ")}`,
+		);
+	}
+
 	const params: any = {
 		data_source_id: dataSourceId,
 		filter: {
-			and: [
-				{
-					property: "Published",
-					checkbox: {
-						equals: true,
-					},
-				},
-				{
-					property: "Publish Date",
-					formula: {
-						date: {
-							on_or_before: new Date().toISOString(),
-						},
-					},
-				},
-				{
-					property: "Slug",
-					formula: {
-						string: {
-							is_not_empty: true,
-						},
-					},
-				},
-
-				...(queryFilters?.and || []),
-			],
+			and: [...buildEntriesFilters(new Date().toISOString()), ...(queryFilters?.and || [])],
 			or: queryFilters?.or || undefined,
 		},
 		sorts: [
@@ -407,39 +430,7 @@ export async function getAllEntries(): Promise<Post[]> {
 		page_size: 100,
 	};
 
-	let results: responses.PageObject[] = [];
-	// eslint-disable-next-line no-constant-condition
-	while (true) {
-		const res = await retry(
-			async (bail) => {
-				try {
-					return (await client.dataSources.query(
-						params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-					)) as responses.QueryDatabaseResponse;
-				} catch (error: unknown) {
-					if (error instanceof APIResponseError) {
-						if (error.status && error.status >= 400 && error.status < 500) {
-							bail(error);
-						}
-					}
-					throw error;
-				}
-			},
-			{
-				retries: numberOfRetry,
-				minTimeout: minTimeout,
-				factor: factor,
-			},
-		);
-
-		results = results.concat(res.results);
-
-		if (!res.has_more) {
-			break;
-		}
-
-		params["start_cursor"] = res.next_cursor as string;
-	}
+	const results = await _queryAllPageObjects(params);
 
 	allEntriesCache = await Promise.all(
 		results
@@ -455,6 +446,73 @@ export async function getAllEntries(): Promise<Post[]> {
 	return allEntriesCache;
 }
 
+// Preview builds only: entries that are unpublished or dated in the future, built under /preview/.
+export async function getAllDraftEntries(): Promise<Post[]> {
+	if (!PREVIEW_DRAFTS) {
+		return [];
+	}
+	if (allDraftEntriesCache !== null) {
+		return allDraftEntriesCache;
+	}
+
+	allDraftEntriesCache = loadBuildcache<Post[]>("allDraftEntries.json");
+	if (allDraftEntriesCache) {
+		return allDraftEntriesCache;
+	}
+
+	// Published entries own their slugs; validation of the mapping also happens there
+	const publishedSlugs = new Set((await getAllEntries()).map((entry) => entry.Slug));
+	const dataSourceId = await getResolvedDataSourceId();
+
+	const params: any = {
+		data_source_id: dataSourceId,
+		filter: {
+			and: buildDraftFilters(new Date().toISOString()),
+		},
+		sorts: [
+			{
+				timestamp: "last_edited_time",
+				direction: "descending",
+			},
+		],
+		page_size: 100,
+	};
+
+	const results = await _queryAllPageObjects(params);
+
+	const drafts = await Promise.all(
+		results
+			.filter((pageObject) => _validPageObject(pageObject))
+			.map((pageObject) => _buildPost(pageObject)),
+	);
+	allDraftEntriesCache = drafts
+		.filter((draft) => !!draft.Slug && !draft.IsExternal && !publishedSlugs.has(draft.Slug))
+		.map((draft) => ({ ...draft, IsDraft: true }));
+
+	console.log(`Preview: building ${allDraftEntriesCache.length} draft or scheduled entries`);
+	saveBuildcache("allDraftEntries.json", allDraftEntriesCache);
+	return allDraftEntriesCache;
+}
+
+async function _queryAllPageObjects(params: any): Promise<responses.PageObject[]> {
+	let results: responses.PageObject[] = [];
+	// eslint-disable-next-line no-constant-condition
+	while (true) {
+		const res = (await contentSource.queryDataSource(
+			params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+		)) as responses.QueryDatabaseResponse;
+
+		results = results.concat(res.results);
+
+		if (!res.has_more) {
+			break;
+		}
+
+		params["start_cursor"] = res.next_cursor as string;
+	}
+	return results;
+}
+
 export async function getAllPosts(): Promise<Post[]> {
 	const allEntries = await getAllEntries();
 	return allEntries.filter((post) => !(MENU_PAGES_COLLECTION === post.Collection));
@@ -472,7 +530,57 @@ export async function getPostBySlug(slug: string): Promise<Post | null> {
 
 export async function getPostByPageId(pageId: string): Promise<Post | null> {
 	const allPosts = await getAllEntries();
-	return allPosts.find((post) => post.PageId === pageId) || null;
+	const entry = allPosts.find((post) => post.PageId === pageId);
+	if (entry) return entry;
+
+	const subPages = await getAllSubPages();
+	const subPage = subPages.find((subPage) => subPage.PageId === pageId);
+	if (subPage) return subPage;
+
+	const drafts = await getAllDraftEntries();
+	return drafts.find((draft) => draft.PageId === pageId) || null;
+}
+
+// Sub-pages are child_page blocks inside published posts (and inside other sub-pages),
+// built to nested routes under their parent's slug, e.g. /posts/parent/child/.
+export async function getAllSubPages(): Promise<Post[]> {
+	if (allSubPagesCache !== null) {
+		return allSubPagesCache;
+	}
+
+	allSubPagesCache = loadBuildcache<Post[]>("allSubPages.json");
+	if (allSubPagesCache) {
+		return allSubPagesCache;
+	}
+
+	const subPages: Post[] = [];
+	const visitedPageIds = new Set<string>();
+
+	const collectSubPages = async (parent: Post) => {
+		const { blocks } = await getPostContentByPostId(parent);
+		const usedSlugs = new Set<string>();
+		for (const childPageBlock of extractTargetBlocks(["child_page"], blocks)) {
+			if (visitedPageIds.has(childPageBlock.Id)) continue;
+			visitedPageIds.add(childPageBlock.Id);
+
+			const subPage = await _buildSubPage(parent, childPageBlock, usedSlugs);
+			if (!subPage) continue;
+			subPages.push(subPage);
+			await collectSubPages(subPage);
+		}
+	};
+
+	const posts = (await getAllPosts()).filter((post) => !post.IsExternal);
+	for (const post of posts) {
+		visitedPageIds.add(post.PageId);
+	}
+	for (const post of posts) {
+		await collectSubPages(post);
+	}
+
+	allSubPagesCache = subPages;
+	saveBuildcache("allSubPages.json", allSubPagesCache);
+	return allSubPagesCache;
 }
 
 export async function getPostContentByPostId(post: Post): Promise<{
@@ -480,6 +588,7 @@ export async function getPostContentByPostId(post: Post): Promise<{
 	interlinkedContentInPage: InterlinkedContentInPage[] | null;
 	footnotesInPage: Footnote[] | null;
 	citationsInPage: Citation[] | null;
+	figuresInPage: FigureInPage[] | null;
 }> {
 	if (post.IsExternal) {
 		return {
@@ -487,6 +596,7 @@ export async function getPostContentByPostId(post: Post): Promise<{
 			interlinkedContentInPage: null,
 			footnotesInPage: null,
 			citationsInPage: null,
+			figuresInPage: null,
 		};
 	}
 
@@ -598,6 +708,17 @@ export async function getPostContentByPostId(post: Post): Promise<{
 				fs.writeFileSync(cacheFilePath, superjson.stringify(blocks), "utf-8");
 			}
 		}
+
+		// Cached citations keep the style they were built with, which the config may have changed
+		if (BIBTEX_CITATIONS_ENABLED) {
+			applyCitationStyle(
+				blocks,
+				citationsInPage,
+				getCitationStyleForCollection(post.Collection),
+				getBibEntriesCache(),
+			);
+			if (citationsInPage) citationsInPage = prepareBibliography(citationsInPage);
+		}
 	} else {
 		// CACHE MISS PATH: Post was updated or no cache exists
 		const { blocks: allBlocks, fileBlocks } = await getAllBlocksByBlockId(post.PageId);
@@ -606,6 +727,16 @@ export async function getPostContentByPostId(post: Post): Promise<{
 		// Download all files in parallel
 		await processFileBlocks(fileBlocks);
 
+		// Citations are rendered in bibliography-format; the post's collection may use another style
+		if (BIBTEX_CITATIONS_ENABLED) {
+			applyCitationStyle(
+				blocks,
+				null,
+				getCitationStyleForCollection(post.Collection),
+				getBibEntriesCache(),
+			);
+		}
+
 		// Use unified extraction for all three types in ONE tree traversal
 		const extracted = extractPageContent(post.PageId, blocks, {
 			extractFootnotes: shouldExtractFootnotes,
@@ -636,10 +767,19 @@ export async function getPostContentByPostId(post: Post): Promise<{
 		}
 	}
 
+	// Equation, theorem and figure numbers depend on the whole page, so they are assigned after every load
+	numberEquations(blocks);
+	numberTheorems(blocks);
+	const figures = numberFigures(blocks);
+	const figuresInPage = figures.length > 0 ? figures : null;
+
+	// Keep this version's blocks for the post's revision history
+	saveRevision(post, blocks);
+
 	// Update the blockIdPostIdMap
 	updateBlockIdPostIdMap(post.PageId, blocks);
 
-	return { blocks, interlinkedContentInPage, footnotesInPage, citationsInPage };
+	return { blocks, interlinkedContentInPage, footnotesInPage, citationsInPage, figuresInPage };
 }
 
 function formatUUID(id: string): string {
@@ -736,27 +876,9 @@ export async function getAllBlocksByBlockId(
 
 	// eslint-disable-next-line no-constant-condition
 	while (true) {
-		const res = await retry(
-			async (bail) => {
-				try {
-					return (await client.blocks.children.list(
-						params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-					)) as responses.RetrieveBlockChildrenResponse;
-				} catch (error: unknown) {
-					if (error instanceof APIResponseError) {
-						if (error.status && error.status >= 400 && error.status < 500) {
-							bail(error);
-						}
-					}
-					throw error;
-				}
-			},
-			{
-				retries: numberOfRetry,
-				minTimeout: minTimeout,
-				factor: factor,
-			},
-		);
+		const res = (await contentSource.listBlockChildren(
+			params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+		)) as responses.RetrieveBlockChildrenResponse;
 
 		results = results.concat(res.results);
 
@@ -768,7 +890,7 @@ export async function getAllBlocksByBlockId(
 	}
 
 	const allBlocks = await Promise.all(
-		results.map((blockObject) => _buildBlock(blockObject, blockId)),
+		results.map((blockObject) => _buildBlockWithCache(blockObject, blockId)),
 	);
 	// Filter blocks that have files to download
 	const allFileBlocks = allBlocks.filter(
@@ -776,7 +898,8 @@ export async function getAllBlocksByBlockId(
 			block.Video?.File?.Url ||
 			block.NImage?.File?.Url ||
 			block.NAudio?.File?.Url ||
-			block.File?.File?.Url,
+			block.File?.File?.Url ||
+			block.NPdf?.File?.Url,
 	);
 
 	for (let i = 0; i < allBlocks.length; i++) {
@@ -785,6 +908,15 @@ export async function getAllBlocksByBlockId(
 
 		if (block.Type === "table" && block.Table) {
 			block.Table.Rows = await _getTableRows(block.Id);
+		} else if (block.Type === "child_database" && block.ChildDatabase) {
+			try {
+				const { columns, rows } = await _getChildDatabaseRows(block.Id);
+				block.ChildDatabase.Columns = columns;
+				block.ChildDatabase.Rows = rows;
+			} catch (error) {
+				console.error(`Failed to query child database ${block.Id}:`, error);
+				// Render the title only rather than failing the entire build
+			}
 		} else if (block.Type === "column_list" && block.ColumnList) {
 			const { columns, fileBlocks: columnFileBlocks } = await _getColumns(block.Id);
 			block.ColumnList.Columns = columns;
@@ -881,7 +1013,7 @@ export async function getAllBlocksByBlockId(
 				const extractionResult = await extractFootnotesFromBlock(
 					block,
 					adjustedFootnotesConfig,
-					client,
+					contentSource,
 				);
 				if (extractionResult.footnotes.length > 0) {
 					block.Footnotes = extractionResult.footnotes;
@@ -913,6 +1045,116 @@ export async function getAllBlocksByBlockId(
 	return { blocks: allBlocks, fileBlocks: allFileBlocks };
 }
 
+/*
+ * Per-block cache: the built block (without children) keyed by block id + last_edited_time.
+ * Notion does not bump a parent's last_edited_time when a nested block's text changes, so the
+ * tree is still walked with one shallow children listing per parent; only blocks whose
+ * timestamp moved are rebuilt, which skips rich text, mention, emoji and embed work for the rest.
+ * Children, table rows, databases, footnotes and citations are attached fresh on every walk.
+ */
+const BLOCK_CACHE_VERSION = 2; // Bump when Block or the cached layout changes
+
+type BlockCacheEntry = {
+	Version: number;
+	LastEditedTime: string;
+	Block: Block;
+};
+
+async function _buildBlockWithCache(
+	blockObject: responses.BlockObject,
+	pageId: string,
+): Promise<Block> {
+	const cacheFilePath = path.join(
+		BUILD_FOLDER_PATHS["blocksJsonPerBlock"],
+		`${blockObject.id}.json`,
+	);
+
+	if (fs.existsSync(cacheFilePath)) {
+		try {
+			const cached: BlockCacheEntry = superjson.parse(fs.readFileSync(cacheFilePath, "utf-8"));
+			if (
+				cached.Version === BLOCK_CACHE_VERSION &&
+				cached.LastEditedTime === blockObject.last_edited_time
+			) {
+				blockCacheStats.reused++;
+				_refreshFileUrls(cached.Block, blockObject);
+				await _replaySideEffects(cached.Block);
+				return cached.Block;
+			}
+		} catch (err) {
+			console.warn(`Ignoring unreadable block cache ${cacheFilePath}: ${err}`);
+		}
+	}
+
+	const block = await _buildBlock(blockObject, pageId);
+	blockCacheStats.built++;
+	// Written before children or footnotes are attached, so the cache holds the block alone
+	const entry: BlockCacheEntry = {
+		Version: BLOCK_CACHE_VERSION,
+		LastEditedTime: blockObject.last_edited_time,
+		Block: block,
+	};
+	fs.mkdirSync(BUILD_FOLDER_PATHS["blocksJsonPerBlock"], { recursive: true });
+	fs.writeFileSync(cacheFilePath, superjson.stringify(entry), "utf-8");
+	return block;
+}
+
+// Uploaded files and icons are signed URLs that expire after an hour; the listing has fresh ones
+function _refreshFileUrls(block: Block, blockObject: responses.BlockObject): void {
+	const mediaBlock = block.NImage || block.Video || block.NAudio || block.File || block.NPdf;
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const freshFile = (blockObject as any)[blockObject.type]?.file;
+	if (mediaBlock?.File && freshFile?.url) {
+		mediaBlock.File.Url = freshFile.url;
+		mediaBlock.File.ExpiryTime = freshFile.expiry_time;
+	}
+
+	const freshIcon = blockObject.callout?.icon;
+	if (
+		block.Callout?.Icon &&
+		freshIcon?.type === "file" &&
+		"file" in freshIcon &&
+		freshIcon.file?.url
+	) {
+		block.Callout.Icon = {
+			Type: freshIcon.type,
+			Url: freshIcon.file.url,
+			ExpiryTime: freshIcon.file.expiry_time,
+		};
+	}
+}
+
+// Reused blocks skip _buildBlock, so redo what it does besides returning the block: write MDX
+// snippets and download custom emoji and callout icons (these are missing after a cache trim)
+async function _replaySideEffects(block: Block): Promise<void> {
+	if (block.MdxSnippet && block.Code) {
+		writeMdxSnippet({
+			pageId: block.MdxSnippet.PageId,
+			blockId: block.MdxSnippet.BlockId,
+			slug: block.MdxSnippet.Slug,
+			content: block.Code.RichTexts.map((richText) => richText.PlainText)
+				.join("")
+				.replaceAll(MDX_SNIPPET_TRIGGER, "")
+				.trimStart(),
+		});
+	}
+
+	const icon = block.Callout?.Icon;
+	if (icon && "Url" in icon && icon.Url) {
+		if (icon.Type !== "external" || isNotionHostedIconUrl(icon.Url)) {
+			await ensureIconDownloaded(icon.Url, "callout icon");
+		}
+	}
+
+	for (const location of getAllRichTextLocations(block)) {
+		for (const richText of location.richTexts) {
+			if (richText.Mention?.CustomEmoji?.Url) {
+				await ensureIconDownloaded(richText.Mention.CustomEmoji.Url, "custom emoji");
+			}
+		}
+	}
+}
+
 export async function getBlock(
 	blockId: string,
 	forceRefresh = false,
@@ -946,27 +1188,9 @@ export async function getBlock(
 	};
 
 	try {
-		const res = await retry(
-			async (bail) => {
-				try {
-					return (await client.blocks.retrieve(
-						params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-					)) as responses.RetrieveBlockResponse;
-				} catch (error: unknown) {
-					if (error instanceof APIResponseError) {
-						if (error.status && error.status >= 400 && error.status < 500) {
-							bail(error);
-						}
-					}
-					throw error;
-				}
-			},
-			{
-				retries: numberOfRetry,
-				minTimeout: minTimeout,
-				factor: factor,
-			},
-		);
+		const res = (await contentSource.retrieveBlock(
+			params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+		)) as responses.RetrieveBlockResponse;
 
 		const block = await _buildBlock(res, blockId);
 
@@ -976,7 +1200,8 @@ export async function getBlock(
 			(block.Video?.File?.Url ||
 				block.NImage?.File?.Url ||
 				block.NAudio?.File?.Url ||
-				block.File?.File?.Url)
+				block.File?.File?.Url ||
+				block.NPdf?.File?.Url)
 		) {
 			await processFileBlocks([block]);
 		}
@@ -1045,7 +1270,7 @@ export async function getAllTagsWithCounts(): Promise<
 		? allPosts.filter((post) => !post.Slug.startsWith("_"))
 		: allPosts;
 	const { propertiesRaw } = await getDataSource();
-	const options = propertiesRaw.Tags?.multi_select?.options || [];
+	const options = getMappedSchemaOptions(propertiesRaw, "tags");
 
 	const tagsNameWDesc = options.reduce(
 		(acc, option) => {
@@ -1086,6 +1311,103 @@ export async function getAllTagsWithCounts(): Promise<
 	return sortedTagCounts;
 }
 
+/**
+ * Posts grouped by series, each series in reading order: parts with a series-order first
+ * (ascending), then the rest by publish date.
+ */
+export async function getAllSeries(): Promise<Series[]> {
+	if (allSeriesCache) {
+		return allSeriesCache;
+	}
+
+	const allPosts = await getAllPosts();
+	const filteredPosts = HIDE_UNDERSCORE_SLUGS_IN_LISTS
+		? allPosts.filter((post) => !post.Slug.startsWith("_"))
+		: allPosts;
+	const { propertiesRaw } = await getDataSource();
+	const descriptions = Object.fromEntries(
+		getMappedSchemaOptions(propertiesRaw, "series").map((option) => [
+			option.name,
+			option.description,
+		]),
+	);
+
+	const seriesBySlug = new Map<string, Series>();
+	filteredPosts.forEach((post) => {
+		if (!post.Series) return;
+		let series = seriesBySlug.get(post.Series.Slug);
+		if (!series) {
+			series = {
+				Name: post.Series.Name,
+				Slug: post.Series.Slug,
+				Description: descriptions[post.Series.Name] || "",
+				Posts: [],
+			};
+			seriesBySlug.set(post.Series.Slug, series);
+		}
+		series.Posts.push(post);
+	});
+
+	const byReadingOrder = (a: Post, b: Post) => {
+		const orderA = a.Series?.Order ?? Infinity;
+		const orderB = b.Series?.Order ?? Infinity;
+		if (orderA !== orderB) return orderA < orderB ? -1 : 1;
+		return new Date(a.Date).getTime() - new Date(b.Date).getTime();
+	};
+
+	allSeriesCache = Array.from(seriesBySlug.values())
+		.map((series) => ({ ...series, Posts: series.Posts.sort(byReadingOrder) }))
+		.sort((a, b) => a.Name.localeCompare(b.Name));
+	return allSeriesCache;
+}
+
+export async function getSeriesOfPost(post: Post): Promise<Series | null> {
+	if (!post.Series) return null;
+	const allSeries = await getAllSeries();
+	const series = allSeries.find((series) => series.Slug === post.Series!.Slug);
+	return series && series.Posts.some((part) => part.PageId === post.PageId) ? series : null;
+}
+
+/**
+ * Other-language versions of a post. The translations relation may be set on either side
+ * (or only on some entries of a group), so the whole connected group is collected.
+ */
+export async function getTranslations(post: Post): Promise<Post[]> {
+	const allPosts = await getAllPosts();
+	const linkedIds = new Map<string, Set<string>>();
+	const link = (a: string, b: string) => {
+		if (!linkedIds.has(a)) linkedIds.set(a, new Set());
+		linkedIds.get(a)!.add(b);
+	};
+	allPosts.forEach((entry) => {
+		(entry.TranslationPageIds || []).forEach((id) => {
+			link(entry.PageId, id);
+			link(id, entry.PageId);
+		});
+	});
+
+	const group = new Set([post.PageId]);
+	const queue = [post.PageId];
+	while (queue.length > 0) {
+		for (const id of linkedIds.get(queue.shift()!) || []) {
+			if (!group.has(id)) {
+				group.add(id);
+				queue.push(id);
+			}
+		}
+	}
+	return allPosts.filter((entry) => entry.PageId !== post.PageId && group.has(entry.PageId));
+}
+
+// Languages the posts are written in; posts without one count as the site language
+export async function getAllLanguages(): Promise<string[]> {
+	const allPosts = await getAllPosts();
+	const filteredPosts = HIDE_UNDERSCORE_SLUGS_IN_LISTS
+		? allPosts.filter((post) => !post.Slug.startsWith("_"))
+		: allPosts;
+	return Array.from(new Set(filteredPosts.map((post) => getPostLanguage(post)))).sort();
+}
+
 // ============================================================================
 // Author Functions
 // ============================================================================
@@ -1147,7 +1469,7 @@ export async function hasAuthorsProperty(): Promise<boolean> {
 	}
 
 	const { propertiesRaw } = await getDataSource();
-	authorsPropertyExistsCache = !!propertiesRaw.Authors?.multi_select;
+	authorsPropertyExistsCache = hasMappedProperty(propertiesRaw, "authors");
 	return authorsPropertyExistsCache;
 }
 
@@ -1229,7 +1551,7 @@ export async function getAllAuthorsWithCounts(): Promise<
 		: allPosts;
 
 	const { propertiesRaw } = await getDataSource();
-	const options = propertiesRaw.Authors?.multi_select?.options || [];
+	const options = getMappedSchemaOptions(propertiesRaw, "authors");
 
 	// Build a map of author name to raw description
 	const authorsNameWDesc = options.reduce(
@@ -1519,7 +1841,7 @@ async function ensureDownloaded(url: URL, isImageForAstro: boolean): Promise<voi
 export async function processFileBlocks(fileAttachedBlocks: Block[]) {
 	await Promise.all(
 		fileAttachedBlocks.map(async (block) => {
-			const mediaBlock = block.NImage || block.File || block.Video || block.NAudio;
+			const mediaBlock = block.NImage || block.File || block.Video || block.NAudio || block.NPdf;
 			const fileDetails = mediaBlock?.File;
 			if (!fileDetails?.Url) return null;
 			const expiryTime = fileDetails.ExpiryTime;
@@ -1542,7 +1864,11 @@ export async function processFileBlocks(fileAttachedBlocks: Block[]) {
 						return null;
 					}
 					const updatedMediaBlock =
-						updatedBlock.NImage || updatedBlock.File || updatedBlock.Video || updatedBlock.NAudio;
+						updatedBlock.NImage ||
+						updatedBlock.File ||
+						updatedBlock.Video ||
+						updatedBlock.NAudio ||
+						updatedBlock.NPdf;
 					const updatedUrl = updatedMediaBlock?.File?.Url;
 					if (!updatedUrl) return null;
 					url = new URL(updatedUrl);
@@ -1590,7 +1916,7 @@ async function ensureWorkspaceCustomEmojiCache(): Promise<void> {
 			let startCursor: string | undefined;
 
 			do {
-				const response = await client.customEmojis.list({
+				const response = await contentSource.listCustomEmojis({
 					page_size: 100,
 					...(startCursor ? { start_cursor: startCursor } : {}),
 				});
@@ -1749,27 +2075,9 @@ export async function getDataSource(): Promise<Database> {
 		data_source_id: dataSourceId,
 	};
 
-	const res = await retry(
-		async (bail) => {
-			try {
-				return (await client.dataSources.retrieve(
-					params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-				)) as responses.RetrieveDatabaseResponse;
-			} catch (error: unknown) {
-				if (error instanceof APIResponseError) {
-					if (error.status && error.status >= 400 && error.status < 500) {
-						bail(error);
-					}
-				}
-				throw error;
-			}
-		},
-		{
-			retries: numberOfRetry,
-			minTimeout: minTimeout,
-			factor: factor,
-		},
-	);
+	const res = (await contentSource.retrieveDataSource(
+		params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+	)) as responses.RetrieveDatabaseResponse;
 
 	const icon = await buildIconObject(res.icon, "database icon");
 
@@ -1985,6 +2293,24 @@ async function _buildBlock(blockObject: responses.BlockObject, pageId?: string):
 				block.File = file;
 			}
 			break;
+		case "pdf":
+			if (blockObject.pdf) {
+				const pdf: NPdf = {
+					Caption: await Promise.all(blockObject.pdf.caption?.map(_buildRichText) || []),
+					Type: blockObject.pdf.type,
+				};
+				if (blockObject.pdf.type === "external" && blockObject.pdf.external) {
+					pdf.External = { Url: blockObject.pdf.external.url };
+				} else if (blockObject.pdf.type === "file" && blockObject.pdf.file) {
+					pdf.File = {
+						Type: blockObject.pdf.type,
+						Url: blockObject.pdf.file.url,
+						ExpiryTime: blockObject.pdf.file.expiry_time,
+					};
+				}
+				block.NPdf = pdf;
+			}
+			break;
 		case "code":
 			if (blockObject.code) {
 				const code: Code = {
@@ -2168,6 +2494,36 @@ async function _buildBlock(blockObject: responses.BlockObject, pageId?: string):
 				block.Table = table;
 			}
 			break;
+		case "child_database":
+			if (blockObject.child_database) {
+				let title = blockObject.child_database.title || "";
+				let view: ChildDatabase["View"] = "table";
+				const galleryMarker = SHORTCODES["database-gallery"];
+				const listMarker = SHORTCODES["database-list"];
+				if (galleryMarker && title.startsWith(galleryMarker)) {
+					view = "gallery";
+					title = title.slice(galleryMarker.length).trim();
+				} else if (listMarker && title.startsWith(listMarker)) {
+					view = "list";
+					title = title.slice(listMarker.length).trim();
+				}
+				const childDatabase: ChildDatabase = {
+					Title: title,
+					View: view,
+					Columns: [],
+					Rows: [],
+				};
+				block.ChildDatabase = childDatabase;
+			}
+			break;
+		case "child_page":
+			if (blockObject.child_page) {
+				const childPage: ChildPage = {
+					Title: blockObject.child_page.title,
+				};
+				block.ChildPage = childPage;
+			}
+			break;
 		case "column_list":
 			// eslint-disable-next-line no-case-declarations
 			const columnList: ColumnList = {
@@ -2206,27 +2562,9 @@ async function _getTableRows(blockId: string): Promise<TableRow[]> {
 
 	// eslint-disable-next-line no-constant-condition
 	while (true) {
-		const res = await retry(
-			async (bail) => {
-				try {
-					return (await client.blocks.children.list(
-						params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-					)) as responses.RetrieveBlockChildrenResponse;
-				} catch (error: unknown) {
-					if (error instanceof APIResponseError) {
-						if (error.status && error.status >= 400 && error.status < 500) {
-							bail(error);
-						}
-					}
-					throw error;
-				}
-			},
-			{
-				retries: numberOfRetry,
-				minTimeout: minTimeout,
-				factor: factor,
-			},
-		);
+		const res = (await contentSource.listBlockChildren(
+			params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+		)) as responses.RetrieveBlockChildrenResponse;
 
 		results = results.concat(res.results);
 
@@ -2265,6 +2603,194 @@ async function _getTableRows(blockId: string): Promise<TableRow[]> {
 	);
 }
 
+// A child_database block id is the database id; its rows live in the first data source.
+async function _getChildDatabaseRows(
+	databaseId: string,
+): Promise<{ columns: ChildDatabaseColumn[]; rows: ChildDatabaseRow[] }> {
+	const database = (await contentSource.retrieveDatabase({
+		database_id: databaseId,
+	})) as responses.DatabaseObject;
+
+	const dataSourceId = database.data_sources?.[0]?.id;
+	if (!dataSourceId) {
+		return { columns: [], rows: [] };
+	}
+
+	const dataSource = (await contentSource.retrieveDataSource({
+		data_source_id: dataSourceId,
+	})) as responses.RetrieveDatabaseResponse;
+
+	// Title property first, the rest in schema order
+	const columns: ChildDatabaseColumn[] = Object.entries(dataSource.properties)
+		.map(([name, property]) => ({ Name: name, Type: property.type }))
+		.sort((a, b) => Number(b.Type === "title") - Number(a.Type === "title"));
+
+	let results: responses.PageObject[] = [];
+	const params: any = {
+		data_source_id: dataSourceId,
+		page_size: 100,
+	};
+
+	// eslint-disable-next-line no-constant-condition
+	while (true) {
+		const res = (await contentSource.queryDataSource(
+			params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+		)) as responses.QueryDatabaseResponse;
+
+		results = results.concat(res.results);
+
+		if (!res.has_more) {
+			break;
+		}
+
+		params["start_cursor"] = res.next_cursor as string;
+	}
+
+	const rows = await Promise.all(
+		results.map(async (pageObject) => {
+			// Only published pages get a link; private notion.so urls are useless to readers
+			const url = pageObject.public_url || "";
+
+			let cover: FileObject | null = null;
+			if (pageObject.cover) {
+				const coverUrl = pageObject.cover.external?.url || pageObject.cover.file?.url || "";
+				cover = {
+					Type: pageObject.cover.type,
+					Url: coverUrl,
+					...(pageObject.cover.file?.expiry_time
+						? { ExpiryTime: pageObject.cover.file.expiry_time }
+						: {}),
+				};
+				if (coverUrl && pageObject.cover.type === "file") {
+					await ensureDownloaded(new URL(coverUrl), false);
+				}
+			}
+
+			const cells: TableCell[] = await Promise.all(
+				columns.map(async (column) => {
+					const property = pageObject.properties[column.Name];
+					const richTexts = property ? await _buildPropertyRichTexts(property) : [];
+					if (column.Type === "title" && url) {
+						richTexts.forEach((richText) => {
+							if (!richText.Href) richText.Href = url;
+							if (richText.Text && !richText.Text.Link) richText.Text.Link = { Url: url };
+						});
+					}
+					const tableCell: TableCell = {
+						RichTexts: richTexts,
+					};
+					return tableCell;
+				}),
+			);
+
+			const row: ChildDatabaseRow = {
+				Id: pageObject.id,
+				Url: url,
+				Icon: await buildIconObject(pageObject.icon, "child database row icon"),
+				Cover: cover,
+				Cells: cells,
+			};
+			return row;
+		}),
+	);
+
+	return { columns, rows };
+}
+
+function _plainRichText(content: string, href?: string): RichText {
+	return {
+		Text: { Content: content, ...(href ? { Link: { Url: href } } : {}) },
+		Annotation: {
+			Bold: false,
+			Italic: false,
+			Strikethrough: false,
+			Underline: false,
+			Code: false,
+			Color: "default",
+		},
+		PlainText: content,
+		...(href ? { Href: href } : {}),
+	};
+}
+
+function _formatDateRange(date?: { start: string; end?: string | null } | null): string {
+	if (!date?.start) return "";
+	return date.end
+		? getFormattedDateWithTime(date.start) + " to " + getFormattedDateWithTime(date.end)
+		: getFormattedDateWithTime(date.start);
+}
+
+// Flattens a database row property to rich text so it can reuse the table cell renderer.
+async function _buildPropertyRichTexts(
+	property: responses.PageObject["properties"][string],
+): Promise<RichText[]> {
+	const textOf = (content: string | undefined | null) => (content ? [_plainRichText(content)] : []);
+
+	switch (property.type) {
+		case "title":
+			return Promise.all((property.title || []).map(_buildRichText));
+		case "rich_text":
+			return Promise.all((property.rich_text || []).map(_buildRichText));
+		case "number":
+			return textOf(property.number != null ? String(property.number) : "");
+		case "select":
+			return textOf(property.select?.name);
+		case "status":
+			return textOf(property.status?.name);
+		case "multi_select":
+			return textOf((property.multi_select || []).map((option) => option.name).join(", "));
+		case "date":
+			return textOf(_formatDateRange(property.date));
+		case "checkbox":
+			return textOf(property.checkbox ? "✓" : "");
+		case "url":
+			return property.url ? [_plainRichText(property.url, property.url)] : [];
+		case "email":
+			return property.email ? [_plainRichText(property.email, `mailto:${property.email}`)] : [];
+		case "phone_number":
+			return textOf(property.phone_number);
+		case "people":
+			return textOf(
+				(property.people || [])
+					.map((person) => person.name)
+					.filter(Boolean)
+					.join(", "),
+			);
+		case "files":
+			return textOf(
+				(property.files || [])
+					.map((file) => file.name)
+					.filter(Boolean)
+					.join(", "),
+			);
+		case "formula": {
+			const formula = property.formula;
+			if (!formula) return [];
+			if (formula.type === "date") return textOf(_formatDateRange(formula.date));
+			if (formula.type === "boolean") return textOf(formula.boolean ? "✓" : "");
+			if (formula.type === "number")
+				return textOf(formula.number != null ? String(formula.number) : "");
+			return textOf(formula.string);
+		}
+		case "rollup": {
+			const rollup = property.rollup;
+			if (!rollup) return [];
+			if (rollup.type === "date") return textOf(_formatDateRange(rollup.date));
+			if (rollup.type === "number")
+				return textOf(rollup.number != null ? String(rollup.number) : "");
+			return textOf(rollup.string);
+		}
+		case "created_time":
+			return textOf(property.created_time ? getFormattedDateWithTime(property.created_time) : "");
+		case "last_edited_time":
+			return textOf(
+				property.last_edited_time ? getFormattedDateWithTime(property.last_edited_time) : "",
+			);
+		default:
+			return [];
+	}
+}
+
 async function _getColumns(blockId: string): Promise<{ columns: Column[]; fileBlocks: Block[] }> {
 	let results: responses.BlockObject[] = [];
 
@@ -2274,27 +2800,9 @@ async function _getColumns(blockId: string): Promise<{ columns: Column[]; fileBl
 
 	// eslint-disable-next-line no-constant-condition
 	while (true) {
-		const res = await retry(
-			async (bail) => {
-				try {
-					return (await client.blocks.children.list(
-						params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-					)) as responses.RetrieveBlockChildrenResponse;
-				} catch (error: unknown) {
-					if (error instanceof APIResponseError) {
-						if (error.status && error.status >= 400 && error.status < 500) {
-							bail(error);
-						}
-					}
-					throw error;
-				}
-			},
-			{
-				retries: numberOfRetry,
-				minTimeout: minTimeout,
-				factor: factor,
-			},
-		);
+		const res = (await contentSource.listBlockChildren(
+			params as any, // eslint-disable-line @typescript-eslint/no-explicit-any
+		)) as responses.RetrieveBlockChildrenResponse;
 
 		results = results.concat(res.results);
 
@@ -2344,6 +2852,75 @@ async function _getSyncedBlockChildren(
 	return { blocks: children, fileBlocks };
 }
 
+// The child_page block id is the sub-page's page id. The page is retrieved rather than trusting
+// the block, because a cached parent keeps a stale last_edited_time for its children.
+async function _buildSubPage(
+	parent: Post,
+	childPageBlock: Block,
+	usedSlugs: Set<string>,
+): Promise<Post | null> {
+	let pageObject: responses.PageObject;
+	try {
+		pageObject = (await contentSource.retrievePage({
+			page_id: childPageBlock.Id,
+		})) as responses.PageObject;
+	} catch (error) {
+		console.error(`Failed to retrieve sub-page ${childPageBlock.Id}:`, error);
+		return null;
+	}
+
+	if (pageObject.archived) {
+		return null;
+	}
+
+	const title =
+		childPageBlock.ChildPage?.Title ||
+		(pageObject.properties.title?.title || []).map((richText) => richText.plain_text).join("");
+
+	let childSlug = slugify(title) || pageObject.id.replace(/-/g, "").slice(0, 8);
+	if (usedSlugs.has(childSlug)) {
+		childSlug = `${childSlug}-${pageObject.id.replace(/-/g, "").slice(0, 8)}`;
+	}
+	usedSlugs.add(childSlug);
+
+	// Uploaded covers are signed URLs that expire; the page is retrieved on every build, so this one
+	// is fresh when entry-cache-er downloads it
+	let cover: FileObject | null = null;
+	if (pageObject.cover) {
+		cover = {
+			Type: pageObject.cover.type,
+			Url: pageObject.cover.external?.url || pageObject.cover.file?.url || "",
+			...(pageObject.cover.file?.expiry_time
+				? { ExpiryTime: pageObject.cover.file.expiry_time }
+				: {}),
+		};
+	}
+
+	const subPage: Post = {
+		PageId: pageObject.id,
+		Title: title,
+		LastUpdatedTimeStamp: new Date(pageObject.last_edited_time),
+		Icon: await buildIconObject(pageObject.icon, "sub-page icon"),
+		Cover: cover,
+		Collection: parent.Collection,
+		Slug: `${parent.Slug}/${childSlug}`,
+		Date: parent.Date,
+		Tags: [],
+		Excerpt: "",
+		FeaturedImage: null,
+		Rank: null,
+		LastUpdatedDate: "",
+		Pinned: false,
+		BlueSkyPostLink: "",
+		IsExternal: false,
+		ExternalUrl: null,
+		ExternalContent: null,
+		Authors: parent.Authors,
+		ParentPageId: parent.PageId,
+	};
+	return subPage;
+}
+
 function _validPageObject(pageObject: responses.PageObject): boolean {
 	const prop = pageObject.properties;
 	return !!prop.Page?.title && prop.Page.title.length > 0;
@@ -2363,39 +2940,32 @@ async function _buildPost(pageObject: responses.PageObject): Promise<Post> {
 	}
 
 	let featuredImage: FileObject | null = null;
-	const featuredImageFile = prop.FeaturedImage?.files?.[0];
-	if (featuredImageFile?.external) {
+	const featuredImageFile = getMappedFile(prop, "featured-image");
+	if (featuredImageFile) {
 		featuredImage = {
-			Type: prop.FeaturedImage?.type || "file",
-			Url: featuredImageFile.external.url,
-		};
-	} else if (featuredImageFile?.file) {
-		featuredImage = {
-			Type: prop.FeaturedImage?.type || "file",
-			Url: featuredImageFile.file.url,
-			ExpiryTime: featuredImageFile.file.expiry_time,
+			Type: featuredImageFile.type,
+			Url: featuredImageFile.url,
+			...(featuredImageFile.expiry_time ? { ExpiryTime: featuredImageFile.expiry_time } : {}),
 		};
 	}
 
-	const externalUrl =
-		prop["External URL"] && "url" in prop["External URL"] && prop["External URL"]?.url
-			? prop["External URL"].url.trim()
-			: "";
+	const externalUrl = getMappedText(prop, "external-url").trim();
 	const isExternal = !!externalUrl;
 
-	const slugValue = prop.Slug?.formula?.string ? slugify(prop.Slug.formula.string) : "";
+	const slugText = getMappedText(prop, "slug");
+	const slugValue = slugText ? slugify(slugText) : "";
 	const externalContentDescriptor = resolveExternalContentDescriptor(externalUrl);
 
 	// Parse Authors multi-select if the property exists
 	// Returns undefined if property doesn't exist (different from empty array)
 	let authors: AuthorProperty[] | undefined = undefined;
-	if (prop.Authors && "multi_select" in prop.Authors) {
+	const rawAuthors = getMappedOptions(prop, "authors");
+	if (rawAuthors) {
 		// Property exists - parse it (may be empty array)
-		const rawAuthors = prop.Authors.multi_select || [];
 
 		// Fetch schema to get author descriptions
 		const { propertiesRaw } = await getDataSource();
-		const options = propertiesRaw.Authors?.multi_select?.options || [];
+		const options = getMappedSchemaOptions(propertiesRaw, "authors");
 		const authorsDescMap = options.reduce(
 			(acc, option) => {
 				acc[option.name] = option.description || "";
@@ -2428,36 +2998,86 @@ async function _buildPost(pageObject: responses.PageObject): Promise<Post> {
 		});
 	}
 
+	// lang attributes and date formatting need a BCP 47 tag; "English" would throw in Intl
+	const languageValue = getMappedText(prop, "language").trim();
+	const language = toLanguageTag(languageValue);
+	if (languageValue && !language) {
+		console.warn(
+			`Ignoring language "${languageValue}" of ${pageObject.id}: not a BCP 47 tag like "en" or "pt-BR"`,
+		);
+	}
+
 	const post: Post = {
 		PageId: pageObject.id,
 		Title: prop.Page?.title ? prop.Page.title.map((richText) => richText.plain_text).join("") : "",
 		LastUpdatedTimeStamp: new Date(pageObject.last_edited_time),
 		Icon: icon,
 		Cover: cover,
-		Collection: prop.Collection?.select ? prop.Collection.select.name : "",
+		Collection: getMappedText(prop, "collection"),
 		Slug: slugValue,
-		Date: normalizeNotionCalendarDate(prop["Publish Date"]?.formula?.date?.start),
-		Tags: prop.Tags?.multi_select ? prop.Tags.multi_select : [],
-		Excerpt:
-			prop.Excerpt?.rich_text && prop.Excerpt.rich_text.length > 0
-				? prop.Excerpt.rich_text.map((richText) => richText.plain_text).join("")
-				: "",
+		Date: normalizeNotionCalendarDate(getMappedDate(prop, "publish-date")),
+		Tags: getMappedOptions(prop, "tags") || [],
+		Excerpt: getMappedText(prop, "excerpt"),
 		FeaturedImage: featuredImage,
-		Rank: prop.Rank?.number ?? null,
+		Rank: getMappedNumber(prop, "rank"),
 		LastUpdatedDate: normalizeNotionCalendarDate(prop["Last Updated Date"]?.formula?.date?.start),
-		Pinned: prop.Pinned && prop.Pinned.checkbox === true ? true : false,
-		BlueSkyPostLink:
-			prop["Bluesky Post Link"] && prop["Bluesky Post Link"].url
-				? prop["Bluesky Post Link"].url
-				: "",
+		Pinned: getMappedCheckbox(prop, "pinned"),
+		BlueSkyPostLink: getMappedText(prop, "bluesky-post-link"),
 		IsExternal: isExternal,
 		ExternalUrl: externalUrl || null,
 		ExternalContent: externalContentDescriptor,
 		Authors: authors,
+		Series: await _getPostSeries(prop),
+		Language: language,
+		TranslationPageIds: getMappedRelationIds(prop, "translations"),
 	};
 	return post;
 }
 
+// A select series is named by its option; a relation series by the title of the related page
+async function _getPostSeries(
+	properties: responses.PageObject["properties"],
+): Promise<SeriesProperty | undefined> {
+	let name = getMappedText(properties, "series");
+	if (!name) {
+		const relatedPageId = getMappedRelationIds(properties, "series")?.[0];
+		if (relatedPageId) {
+			name = await _getSeriesPageTitle(relatedPageId);
+		}
+	}
+	name = name.trim();
+	if (!name) return undefined;
+	return {
+		Name: name,
+		Slug: slugify(name),
+		Order: getMappedNumber(properties, "series-order"),
+	};
+}
+
+function _getSeriesPageTitle(pageId: string): Promise<string> {
+	const cached = seriesTitleCache.get(pageId);
+	if (cached) return cached;
+
+	const task = (async () => {
+		try {
+			const res = (await contentSource.retrievePage({
+				page_id: pageId,
+			})) as responses.PageObject;
+			const titleProperty = Object.values(res.properties).find(
+				(property) => property.type === "title",
+			);
+			return (titleProperty?.title || []).map((richText) => richText.plain_text).join("");
+		} catch {
+			// The related data source may not be shared with the integration
+			console.warn(`Series: could not read related page ${pageId}, leaving its posts out of it.`);
+			return "";
+		}
+	})();
+
+	seriesTitleCache.set(pageId, task);
+	return task;
+}
+
 export async function _buildRichText(richTextObject: responses.RichTextObject): Promise<RichText> {
 	const annotation: Annotation = {
 		Bold: richTextObject.annotations.bold,
@@ -2572,6 +3192,17 @@ export async function _buildRichText(richTextObject: responses.RichTextObject):
 			if (emojiUrl) {
 				await ensureIconDownloaded(emojiUrl, "custom emoji");
 			}
+		} else if (richTextObject.mention.type === "user" && richTextObject.mention.user) {
+			// Names need the "read user information" capability; plain_text is "@Name" either way
+			mention.User = {
+				Id: richTextObject.mention.user.id,
+				Name: richTextObject.mention.user.name || richTextObject.plain_text.replace(/^@/, ""),
+			};
+		} else if (richTextObject.mention.type === "database" && richTextObject.mention.database) {
+			mention.Database = await _getDatabaseMention(
+				richTextObject.mention.database.id,
+				richTextObject.plain_text,
+			);
 		}
 
 		richText.Mention = mention;
@@ -2579,3 +3210,33 @@ export async function _buildRichText(richTextObject: responses.RichTextObject):
 
 	return richText;
 }
+
+// Database mentions only carry an id; the title and public URL come from the database itself.
+// Unshared databases fall back to the mention's plain text.
+function _getDatabaseMention(databaseId: string, plainText: string): Promise<DatabaseMention> {
+	const cached = databaseMentionCache.get(databaseId);
+	if (cached) return cached;
+
+	const task = (async () => {
+		try {
+			const res = (await contentSource.retrieveDatabase({
+				database_id: databaseId,
+			})) as responses.DatabaseObject;
+			const databaseMention: DatabaseMention = {
+				Id: databaseId,
+				Title: res.title.map((richText) => richText.plain_text).join("") || plainText,
+				PublicUrl: res.public_url || undefined,
+			};
+			return databaseMention;
+		} catch {
+			const databaseMention: DatabaseMention = {
+				Id: databaseId,
+				Title: plainText,
+			};
+			return databaseMention;
+		}
+	})();
+
+	databaseMentionCache.set(databaseId, task);
+	return task;
+}
@@ -0,0 +1,293 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { Client, APIResponseError, APIErrorCode } from "@notionhq/client";
+import type * as responses from "./responses";
+import type { RetrieveBlock, RetrieveBlockChildren } from "./request-params";
+import type { RequestQueue } from "./request-queue";
+
+export type CustomEmojiObject = {
+	id: string;
+	name: string;
+	url: string;
+};
+
+export interface ListCommentsResponse {
+	results: any[]; // eslint-disable-line @typescript-eslint/no-explicit-any
+	has_more: boolean;
+	next_cursor: string | null;
+}
+
+export interface ListCustomEmojisResponse {
+	results: CustomEmojiObject[];
+	has_more: boolean;
+	next_cursor: string | null;
+}
+
+export interface QueryDataSourceParams {
+	data_source_id: string;
+	filter?: unknown;
+	sorts?: unknown;
+	page_size?: number;
+	start_cursor?: string;
+}
+
+/**
+ * Everything the build reads from the CMS. Notion is the default implementation;
+ * the fixture source replays recorded responses so builds can run offline and
+ * deterministically (CI, snapshot checks of block building, footnotes and citations).
+ */
+export interface ContentSource {
+	name: string;
+	retrieveDatabase(params: { database_id: string }): Promise<responses.DatabaseObject>;
+	retrieveDataSource(params: {
+		data_source_id: string;
+	}): Promise<responses.RetrieveDatabaseResponse>;
+	queryDataSource(params: QueryDataSourceParams): Promise<responses.QueryDatabaseResponse>;
+	retrievePage(params: { page_id: string }): Promise<responses.PageObject>;
+	retrieveBlock(params: RetrieveBlock): Promise<responses.RetrieveBlockResponse>;
+	listBlockChildren(
+		params: RetrieveBlockChildren,
+	): Promise<responses.RetrieveBlockChildrenResponse>;
+	listComments(params: { block_id: string; start_cursor?: string }): Promise<ListCommentsResponse>;
+	listCustomEmojis(params: {
+		page_size?: number;
+		start_cursor?: string;
+	}): Promise<ListCustomEmojisResponse>;
+}
+
+export function createNotionContentSource(auth: string, queue: RequestQueue): ContentSource {
+	// Retries live in the shared request queue, so the client itself never retries
+	const client = new Client({
+		auth: auth,
+		notionVersion: "2026-03-11",
+		retry: false,
+	});
+
+	/* eslint-disable @typescript-eslint/no-explicit-any */
+	return {
+		name: "notion",
+		retrieveDatabase: (params) =>
+			queue.run(
+				"databases.retrieve",
+				async () => (await client.databases.retrieve(params as any)) as responses.DatabaseObject,
+			),
+		retrieveDataSource: (params) =>
+			queue.run(
+				"dataSources.retrieve",
+				async () =>
+					(await client.dataSources.retrieve(params as any)) as responses.RetrieveDatabaseResponse,
+			),
+		queryDataSource: (params) =>
+			queue.run(
+				"dataSources.query",
+				async () =>
+					(await client.dataSources.query(params as any)) as responses.QueryDatabaseResponse,
+			),
+		retrievePage: (params) =>
+			queue.run(
+				"pages.retrieve",
+				async () => (await client.pages.retrieve(params as any)) as responses.PageObject,
+			),
+		retrieveBlock: (params) =>
+			queue.run(
+				"blocks.retrieve",
+				async () =>
+					(await client.blocks.retrieve(params as any)) as responses.RetrieveBlockResponse,
+			),
+		listBlockChildren: (params) =>
+			queue.run(
+				"blocks.children.list",
+				async () =>
+					(await client.blocks.children.list(
+						params as any,
+					)) as responses.RetrieveBlockChildrenResponse,
+			),
+		listComments: (params) =>
+			queue.run(
+				"comments.list",
+				async () => (await client.comments.list(params as any)) as ListCommentsResponse,
+			),
+		listCustomEmojis: (params) =>
+			queue.run(
+				"customEmojis.list",
+				async () => (await client.customEmojis.list(params as any)) as ListCustomEmojisResponse,
+			),
+	};
+	/* eslint-enable @typescript-eslint/no-explicit-any */
+}
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T[\d:.]+(?:Z|[+-]\d{2}:\d{2})$/;
+
+// Keys sorted so equal filters hash alike; timestamps (the build's "now") are left out so a
+// recorded query matches on every later replay
+function stableStringify(value: unknown): string {
+	if (typeof value === "string" && ISO_TIMESTAMP.test(value)) return '"<timestamp>"';
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+	if (value && typeof value === "object") {
+		const entries = Object.entries(value)
+			.filter(([, entry]) => entry !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+		return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+}
+
+function queryFixtureSuffix(params: QueryDataSourceParams): string {
+	if (params.filter === undefined && params.sorts === undefined) return ".query";
+	const hash = crypto
+		.createHash("sha256")
+		.update(stableStringify({ filter: params.filter, sorts: params.sorts }))
+		.digest("hex")
+		.slice(0, 12);
+	return `.query.${hash}`;
+}
+
+/*
+ * Fixture layout (one JSON response per file, exactly as the Notion API returned it):
+ *
+ *   databases/<database_id>.json
+ *   data-sources/<data_source_id>.json
+ *   data-sources/<data_source_id>.query[.<filter_hash>][.<start_cursor>].json
+ *   pages/<page_id>.json
+ *   blocks/<block_id>.json
+ *   blocks/<block_id>.children[.<start_cursor>].json
+ *   comments/<block_id>.json
+ *   custom-emojis[.<start_cursor>].json
+ *
+ * filter_hash tells apart queries of the same data source (published entries, drafts) by
+ * their filter and sorts; unfiltered queries have none.
+ */
+function fixtureFile(dir: string, folder: string, id: string, suffix = "", cursor?: string) {
+	const name = `${id}${suffix}${cursor ? `.${cursor}` : ""}.json`;
+	return folder ? path.join(dir, folder, name) : path.join(dir, name);
+}
+
+function notFoundError(file: string): APIResponseError {
+	return new APIResponseError({
+		code: APIErrorCode.ObjectNotFound,
+		status: 404,
+		message: `No recorded response at ${file}`,
+		headers: {},
+		rawBodyText: "",
+		additional_data: undefined,
+		request_id: undefined,
+	});
+}
+
+export function createFixtureContentSource(dir: string): ContentSource {
+	const read = <T>(file: string): T => {
+		if (!fs.existsSync(file)) {
+			throw notFoundError(file);
+		}
+		return JSON.parse(fs.readFileSync(file, "utf-8")) as T;
+	};
+	// Most blocks have no comments and most workspaces no custom emojis, so those are optional
+	const readOrEmpty = <T>(file: string): T => {
+		if (!fs.existsSync(file)) {
+			return { results: [], has_more: false, next_cursor: null } as T;
+		}
+		return JSON.parse(fs.readFileSync(file, "utf-8")) as T;
+	};
+
+	return {
+		name: "fixtures",
+		retrieveDatabase: async (params) => read(fixtureFile(dir, "databases", params.database_id)),
+		retrieveDataSource: async (params) =>
+			read(fixtureFile(dir, "data-sources", params.data_source_id)),
+		queryDataSource: async (params) =>
+			read(
+				fixtureFile(
+					dir,
+					"data-sources",
+					params.data_source_id,
+					queryFixtureSuffix(params),
+					params.start_cursor,
+				),
+			),
+		retrievePage: async (params) => read(fixtureFile(dir, "pages", params.page_id)),
+		retrieveBlock: async (params) => read(fixtureFile(dir, "blocks", params.block_id)),
+		listBlockChildren: async (params) =>
+			read(fixtureFile(dir, "blocks", params.block_id, ".children", params.start_cursor)),
+		listComments: async (params) =>
+			readOrEmpty(fixtureFile(dir, "comments", params.block_id, "", params.start_cursor)),
+		listCustomEmojis: async (params) =>
+			readOrEmpty(fixtureFile(dir, "", "custom-emojis", "", params.start_cursor)),
+	};
+}
+
+/**
+ * Wraps a source and writes every successful response into the fixture layout,
+ * so a normal Notion build can produce the directory the fixture source replays.
+ */
+export function createRecordingContentSource(inner: ContentSource, dir: string): ContentSource {
+	const record = async <T>(file: string, request: Promise<T>): Promise<T> => {
+		const response = await request;
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		fs.writeFileSync(file, JSON.stringify(response, null, 2), "utf-8");
+		return response;
+	};
+
+	return {
+		name: `${inner.name}+recording`,
+		retrieveDatabase: (params) =>
+			record(fixtureFile(dir, "databases", params.database_id), inner.retrieveDatabase(params)),
+		retrieveDataSource: (params) =>
+			record(
+				fixtureFile(dir, "data-sources", params.data_source_id),
+				inner.retrieveDataSource(params),
+			),
+		queryDataSource: (params) =>
+			record(
+				fixtureFile(
+					dir,
+					"data-sources",
+					params.data_source_id,
+					queryFixtureSuffix(params),
+					params.start_cursor,
+				),
+				inner.queryDataSource(params),
+			),
+		retrievePage: (params) =>
+			record(fixtureFile(dir, "pages", params.page_id), inner.retrievePage(params)),
+		retrieveBlock: (params) =>
+			record(fixtureFile(dir, "blocks", params.block_id), inner.retrieveBlock(params)),
+		listBlockChildren: (params) =>
+			record(
+				fixtureFile(dir, "blocks", params.block_id, ".children", params.start_cursor),
+				inner.listBlockChildren(params),
+			),
+		listComments: (params) =>
+			record(
+				fixtureFile(dir, "comments", params.block_id, "", params.start_cursor),
+				inner.listComments(params),
+			),
+		listCustomEmojis: (params) =>
+			record(
+				fixtureFile(dir, "", "custom-emojis", "", params.start_cursor),
+				inner.listCustomEmojis(params),
+			),
+	};
+}
+
+/**
+ * Picks the source for this build: recorded fixtures when a fixtures directory is set,
+ * otherwise Notion (optionally recording into a directory for later offline builds).
+ */
+export function createContentSource(options: {
+	auth: string;
+	queue: RequestQueue;
+	fixturesDir: string;
+	recordDir: string;
+}): ContentSource {
+	if (options.fixturesDir) {
+		console.log(`Content source: replaying recorded responses from ${options.fixturesDir}`);
+		return createFixtureContentSource(options.fixturesDir);
+	}
+	const notion = createNotionContentSource(options.auth, options.queue);
+	if (options.recordDir) {
+		console.log(`Content source: recording Notion responses into ${options.recordDir}`);
+		return createRecordingContentSource(notion, options.recordDir);
+	}
+	return notion;
+}
@@ -0,0 +1,327 @@
+import { PROPERTY_MAPPING } from "../../constants";
+import type { MappedField, PropertyMappingEntry } from "../../constants";
+import type * as responses from "./responses";
+
+type PageProperty = responses.PageObject["properties"][string];
+
+// Notion types each logical field can be read from
+const SUPPORTED_TYPES: Record<MappedField, string[]> = {
+	published: ["checkbox", "formula", "select", "status"],
+	"publish-date": ["formula", "date", "created_time", "last_edited_time"],
+	slug: ["formula", "rich_text"],
+	collection: ["select", "status"],
+	tags: ["multi_select", "select"],
+	excerpt: ["rich_text", "formula"],
+	"featured-image": ["files", "url"],
+	rank: ["number", "formula"],
+	pinned: ["checkbox", "formula", "select", "status"],
+	"bluesky-post-link": ["url", "rich_text", "formula"],
+	"external-url": ["url", "rich_text", "formula"],
+	authors: ["multi_select", "select"],
+	series: ["select", "relation"],
+	"series-order": ["number", "formula"],
+	language: ["select", "rich_text", "formula"],
+	translations: ["relation"],
+};
+
+// Fields the entries query filters on, or that listings cannot work without
+const REQUIRED_FIELDS: MappedField[] = ["published", "publish-date", "slug", "collection"];
+
+export function getMappedPropertyName(field: MappedField): string {
+	return PROPERTY_MAPPING[field].name;
+}
+
+function getMappedProperty(
+	properties: responses.PageObject["properties"],
+	field: MappedField,
+): PageProperty | undefined {
+	const property = properties[PROPERTY_MAPPING[field].name];
+	// A property of another type than mapped is treated as absent
+	if (!property || property.type !== PROPERTY_MAPPING[field].type) return undefined;
+	return property;
+}
+
+export function getMappedText(
+	properties: responses.PageObject["properties"],
+	field: MappedField,
+): string {
+	const property = getMappedProperty(properties, field);
+	if (!property) return "";
+	switch (property.type) {
+		case "rich_text":
+			return (property.rich_text || []).map((richText) => richText.plain_text).join("");
+		case "title":
+			return (property.title || []).map((richText) => richText.plain_text).join("");
+		case "formula":
+			return property.formula?.string || "";
+		case "url":
+			return property.url || "";
+		case "select":
+			return property.select?.name || "";
+		case "status":
+			return property.status?.name || "";
+		default:
+			return "";
+	}
+}
+
+export function getMappedDate(
+	properties: responses.PageObject["properties"],
+	field: MappedField,
+): string | undefined {
+	const property = getMappedProperty(properties, field);
+	if (!property) return undefined;
+	switch (property.type) {
+		case "date":
+			return property.date?.start;
+		case "formula":
+			return property.formula?.date?.start;
+		case "created_time":
+			return property.created_time;
+		case "last_edited_time":
+			return property.last_edited_time;
+		default:
+			return undefined;
+	}
+}
+
+export function getMappedCheckbox(
+	properties: responses.PageObject["properties"],
+	field: MappedField,
+): boolean {
+	const property = getMappedProperty(properties, field);
+	if (!property) return false;
+	switch (property.type) {
+		case "checkbox":
+			return property.checkbox === true;
+		case "formula":
+			return property.formula?.boolean === true;
+		case "select":
+			return !!property.select && property.select.name === PROPERTY_MAPPING[field].value;
+		case "status":
+			return !!property.status && property.status.name === PROPERTY_MAPPING[field].value;
+		default:
+			return false;
+	}
+}
+
+export function getMappedNumber(
+	properties: responses.PageObject["properties"],
+	field: MappedField,
+): number | null {
+	const property = getMappedProperty(properties, field);
+	if (!property) return null;
+	if (property.type === "number") return property.number ?? null;
+	if (property.type === "formula") return property.formula?.number ?? null;
+	return null;
+}
+
+/**
+ * Selected options of a multi_select (or single select) property.
+ * Returns undefined when the property is missing, so callers can tell "absent" from "empty".
+ */
+export function getMappedOptions(
+	properties: responses.PageObject["properties"],
+	field: MappedField,
+): { id: string; name: string; color: string; description: string }[] | undefined {
+	const property = getMappedProperty(properties, field);
+	if (!property) return undefined;
+	if (property.type === "multi_select") return property.multi_select || [];
+	if (property.type === "select") return property.select ? [property.select] : [];
+	return undefined;
+}
+
+/**
+ * Ids of the pages a relation property points at.
+ * Returns undefined when the property is missing or not a relation.
+ */
+export function getMappedRelationIds(
+	properties: responses.PageObject["properties"],
+	field: MappedField,
+): string[] | undefined {
+	const property = getMappedProperty(properties, field);
+	if (!property || property.type !== "relation") return undefined;
+	return (property.relation || []).map((relation) => relation.id);
+}
+
+export function getMappedFile(
+	properties: responses.PageObject["properties"],
+	field: MappedField,
+): { type: string; url: string; expiry_time?: string } | null {
+	const property = getMappedProperty(properties, field);
+	if (!property) return null;
+	if (property.type === "url") {
+		return property.url ? { type: "external", url: property.url } : null;
+	}
+	const file = property.files?.[0];
+	if (file?.external) {
+		return { type: property.type, url: file.external.url };
+	}
+	if (file?.file) {
+		return { type: property.type, url: file.file.url, expiry_time: file.file.expiry_time };
+	}
+	return null;
+}
+
+/**
+ * Options defined in the data source schema for a select-like field
+ * (used for tag, author and collection descriptions).
+ */
+export function getMappedSchemaOptions(
+	propertiesRaw: responses.DatabaseProperties,
+	field: MappedField,
+): { name: string; description: string; color: string }[] {
+	const property = propertiesRaw[PROPERTY_MAPPING[field].name];
+	if (!property || property.type !== PROPERTY_MAPPING[field].type) return [];
+	const options = property.multi_select?.options || property.select?.options || [];
+	if (options.length === 0 && property.status) {
+		// Status options carry no description
+		return property.status.options.map(({ name, color }) => ({ name, color, description: "" }));
+	}
+	return options.map(({ name, color, description }) => ({
+		name,
+		color,
+		description: description || "",
+	}));
+}
+
+export function hasMappedProperty(
+	propertiesRaw: responses.DatabaseProperties,
+	field: MappedField,
+): boolean {
+	return propertiesRaw[PROPERTY_MAPPING[field].name]?.type === PROPERTY_MAPPING[field].type;
+}
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+function publishedFilter(published: boolean): any {
+	const mapping = PROPERTY_MAPPING.published;
+	if (mapping.type === "select" || mapping.type === "status") {
+		return {
+			property: mapping.name,
+			[mapping.type]: published ? { equals: mapping.value } : { does_not_equal: mapping.value },
+		};
+	}
+	if (mapping.type === "formula") {
+		return { property: mapping.name, formula: { checkbox: { equals: published } } };
+	}
+	return { property: mapping.name, checkbox: { equals: published } };
+}
+
+function publishDateFilter(condition: Record<string, string | boolean>): any {
+	const mapping = PROPERTY_MAPPING["publish-date"];
+	if (mapping.type === "created_time" || mapping.type === "last_edited_time") {
+		return { timestamp: mapping.type, [mapping.type]: condition };
+	}
+	if (mapping.type === "date") {
+		return { property: mapping.name, date: condition };
+	}
+	return { property: mapping.name, formula: { date: condition } };
+}
+
+function slugFilter(): any {
+	const mapping = PROPERTY_MAPPING.slug;
+	if (mapping.type === "rich_text") {
+		return { property: mapping.name, rich_text: { is_not_empty: true } };
+	}
+	return { property: mapping.name, formula: { string: { is_not_empty: true } } };
+}
+
+/**
+ * Query filters the entries query needs: published, dated on or before now, and with a slug.
+ */
+export function buildEntriesFilters(now: string): any[] {
+	return [publishedFilter(true), publishDateFilter({ on_or_before: now }), slugFilter()];
+}
+
+/**
+ * The complement used by preview builds: entries with a slug that are unpublished,
+ * scheduled for later, or not dated yet.
+ */
+export function buildDraftFilters(now: string): any[] {
+	const publishDateType = PROPERTY_MAPPING["publish-date"].type;
+	const hasTimestampDate =
+		publishDateType === "created_time" || publishDateType === "last_edited_time";
+	return [
+		slugFilter(),
+		{
+			or: [
+				publishedFilter(false),
+				publishDateFilter({ after: now }),
+				...(hasTimestampDate ? [] : [publishDateFilter({ is_empty: true })]),
+			],
+		},
+	];
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+function describeAvailable(propertiesRaw: responses.DatabaseProperties): string {
+	return Object.entries(propertiesRaw)
+		.map(([name, property]) => `"${name}" (${property.type})`)
+		.join(", ");
+}
+
+/**
+ * Checks the configured property-mapping against the data source schema.
+ * Returns readable messages; errors make the mapping unusable, warnings only disable a feature.
+ */
+export function validatePropertyMapping(propertiesRaw: responses.DatabaseProperties): {
+	errors: string[];
+	warnings: string[];
+} {
+	const errors: string[] = [];
+	const warnings: string[] = [];
+
+	for (const [field, mapping] of Object.entries(PROPERTY_MAPPING) as [
+		MappedField,
+		PropertyMappingEntry,
+	][]) {
+		const label = `property-mapping.${field}`;
+		if (!mapping.name) {
+			errors.push(`${label}: "name" is empty.`);
+			continue;
+		}
+		if (!SUPPORTED_TYPES[field].includes(mapping.type)) {
+			errors.push(
+				`${label}: type "${mapping.type}" is not supported here; use one of ${SUPPORTED_TYPES[field].join(", ")}.`,
+			);
+			continue;
+		}
+
+		const property = propertiesRaw[mapping.name];
+		if (!property) {
+			const message = `${label}: the Notion data source has no property named "${mapping.name}". Available properties: ${describeAvailable(propertiesRaw)}.`;
+			if (REQUIRED_FIELDS.includes(field)) {
+				errors.push(message);
+			} else {
+				warnings.push(`${message} The field will be left empty.`);
+			}
+			continue;
+		}
+		if (property.type !== mapping.type) {
+			errors.push(
+				`${label}: "${mapping.name}" is a ${property.type} property in Notion, but is mapped as ${mapping.type}. Set "type": "${property.type}" if that type is supported, or map another property.`,
+			);
+			continue;
+		}
+
+		if (
+			(field === "published" || field === "pinned") &&
+			["select", "status"].includes(mapping.type)
+		) {
+			const options = (property.select?.options || property.status?.options || []).map(
+				(option) => option.name,
+			);
+			if (!mapping.value) {
+				errors.push(
+					`${label}: a ${mapping.type} property needs "value", the option that means yes. Options: ${options.join(", ")}.`,
+				);
+			} else if (!options.includes(mapping.value)) {
+				errors.push(
+					`${label}: "${mapping.value}" is not an option of "${mapping.name}". Options: ${options.join(", ")}.`,
+				);
+			}
+		}
+	}
+
+	return { errors, warnings };
+}
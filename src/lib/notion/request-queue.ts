@@ -0,0 +1,169 @@
+import { APIResponseError, APIErrorCode, isHTTPResponseError } from "@notionhq/client";
+
+export interface RequestQueueOptions {
+	concurrency: number;
+	maxRetries: number;
+	initialDelayMs?: number;
+	maxDelayMs?: number;
+}
+
+export interface EndpointStats {
+	requests: number;
+	retries: number;
+	rateLimited: number;
+	failures: number;
+}
+
+export interface RequestQueue {
+	run<T>(endpoint: string, task: () => Promise<T>): Promise<T>;
+	getStats(): Record<string, EndpointStats>;
+	logStats(): void;
+}
+
+// Successful requests needed before one more concurrent slot is allowed back
+const SUCCESSES_PER_SLOT = 20;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function getRetryAfterMs(error: unknown): number | undefined {
+	if (!isHTTPResponseError(error)) return undefined;
+	const headers = error.headers as
+		{ get?: (name: string) => string | null } | Record<string, string> | undefined;
+	if (!headers) return undefined;
+	const value =
+		typeof headers.get === "function"
+			? headers.get("retry-after")
+			: (headers as Record<string, string>)["retry-after"] ||
+				(headers as Record<string, string>)["Retry-After"];
+	if (!value) return undefined;
+
+	const seconds = parseInt(value, 10);
+	if (!isNaN(seconds) && seconds >= 0) return seconds * 1000;
+	const date = Date.parse(value);
+	return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isRateLimited(error: unknown): boolean {
+	return error instanceof APIResponseError && error.code === APIErrorCode.RateLimited;
+}
+
+// 429s, overloads and gateway errors are worth another try; other 4xx are final
+function isRetryable(error: unknown): boolean {
+	if (isRateLimited(error)) return true;
+	if (isHTTPResponseError(error)) {
+		return [500, 502, 503, 504, 529].includes(error.status);
+	}
+	// Network failures (no HTTP response at all)
+	return !(error instanceof APIResponseError);
+}
+
+/**
+ * One queue for every Notion request in the build. It caps how many requests are in flight,
+ * pauses everyone when Notion answers 429 (for as long as Retry-After says), halves the
+ * concurrency on each rate limit and slowly grows it back while requests keep succeeding.
+ */
+export function createRequestQueue(options: RequestQueueOptions): RequestQueue {
+	const maxConcurrency = Math.max(1, options.concurrency);
+	const initialDelayMs = options.initialDelayMs ?? 1000;
+	const maxDelayMs = options.maxDelayMs ?? 60000;
+
+	let concurrency = maxConcurrency;
+	let active = 0;
+	let successStreak = 0;
+	let pausedUntil = 0;
+	const waiting: (() => void)[] = [];
+	const stats: Record<string, EndpointStats> = {};
+
+	const statsFor = (endpoint: string): EndpointStats => {
+		if (!stats[endpoint]) {
+			stats[endpoint] = { requests: 0, retries: 0, rateLimited: 0, failures: 0 };
+		}
+		return stats[endpoint];
+	};
+
+	const acquire = async () => {
+		// Woken waiters re-check, since concurrency may have shrunk in the meantime
+		while (active >= concurrency) {
+			await new Promise<void>((resolve) => waiting.push(resolve));
+		}
+		active++;
+		const pause = pausedUntil - Date.now();
+		if (pause > 0) {
+			await sleep(pause);
+		}
+	};
+
+	const release = () => {
+		active--;
+		waiting.shift()?.();
+	};
+
+	const onSuccess = () => {
+		successStreak++;
+		if (concurrency < maxConcurrency && successStreak >= SUCCESSES_PER_SLOT) {
+			concurrency++;
+			successStreak = 0;
+			waiting.shift()?.();
+		}
+	};
+
+	const onRateLimited = (delayMs: number) => {
+		successStreak = 0;
+		concurrency = Math.max(1, Math.floor(concurrency / 2));
+		pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+	};
+
+	return {
+		async run<T>(endpoint: string, task: () => Promise<T>): Promise<T> {
+			const endpointStats = statsFor(endpoint);
+			for (let attempt = 0; ; attempt++) {
+				await acquire();
+				endpointStats.requests++;
+				let retryDelay = 0;
+				try {
+					const result = await task();
+					onSuccess();
+					return result;
+				} catch (error: unknown) {
+					if (attempt >= options.maxRetries || !isRetryable(error)) {
+						endpointStats.failures++;
+						throw error;
+					}
+					const backoff = Math.min(
+						initialDelayMs * 2 ** attempt * (0.5 + Math.random()),
+						maxDelayMs,
+					);
+					const delay = Math.min(getRetryAfterMs(error) ?? backoff, maxDelayMs);
+					endpointStats.retries++;
+					if (isRateLimited(error)) {
+						endpointStats.rateLimited++;
+						onRateLimited(delay);
+						console.warn(
+							`Notion: rate limited on ${endpoint}, pausing ${Math.round(delay / 1000)}s (concurrency now ${concurrency})`,
+						);
+					} else {
+						retryDelay = delay;
+					}
+				} finally {
+					release();
+				}
+				// Other failures wait on their own, without holding a slot
+				if (retryDelay > 0) {
+					await sleep(retryDelay);
+				}
+			}
+		},
+		getStats: () => stats,
+		logStats() {
+			const endpoints = Object.keys(stats).sort();
+			if (endpoints.length === 0) return;
+			console.log("Notion requests by endpoint:");
+			for (const endpoint of endpoints) {
+				const { requests, retries, rateLimited, failures } = stats[endpoint]!;
+				console.log(
+					`  ${endpoint}: ${requests} requests, ${retries} retries, ${rateLimited} rate limited, ${failures} failed`,
+				);
+			}
+		},
+	};
+}
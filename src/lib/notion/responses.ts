@@ -38,6 +38,7 @@ export interface RetrieveBlockChildrenResponse {
 interface UserObject {
 	object: string;
 	id: string;
+	name?: string;
 }
 
 interface FileObject {
@@ -173,6 +174,13 @@ export interface DatabaseObject {
 	url: string;
 	archived: boolean;
 	is_inline: boolean;
+	public_url?: string | null;
+	data_sources?: DataSourceReference[];
+}
+
+interface DataSourceReference {
+	id: string;
+	name: string;
 }
 
 export interface DatabaseProperties {
@@ -278,6 +286,7 @@ export interface PageObject {
 	properties: PageProperties;
 	parent: Parent;
 	url: string;
+	public_url?: string | null;
 }
 
 interface PageProperties {
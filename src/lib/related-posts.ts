@@ -0,0 +1,213 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { BUILD_FOLDER_PATHS, HIDE_UNDERSCORE_SLUGS_IN_LISTS, RELATED_POSTS } from "../constants";
+import type { Post } from "./interfaces";
+import { getAllPosts, getPostContentByPostId } from "./notion/client";
+import { extractPageContent, getInterlinkedContentToPage } from "./blog-helpers";
+
+const RELATED_POSTS_FILE = "related-posts.json";
+
+// Words too common to say anything about what a post is about
+const STOP_WORDS = new Set(
+	(
+		"the and for are but not you all any can had her was one our out day get has him his how " +
+		"its may new now old see two way who did let put say she too use that with have this will " +
+		"your from they know want been good much some time very when come here just like long make " +
+		"many more only over such take than them well were what which their there these those would " +
+		"about after again also because before being between could does doing down each into most " +
+		"other should then through under until where while why itself myself yourself"
+	).split(" "),
+);
+
+interface RelatedPostsCache {
+	signature: string;
+	related: Record<string, string[]>;
+}
+
+interface TermsCache {
+	updated: string;
+	terms: Record<string, number>;
+}
+
+let relatedPostsCache: Record<string, string[]> | null = null;
+
+function tokenize(text: string): string[] {
+	return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+		(word) => word.length > 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word),
+	);
+}
+
+// Term counts per post, recomputed only when the post was edited since they were cached
+async function getPostTerms(post: Post): Promise<Record<string, number>> {
+	const cachePath = path.join(BUILD_FOLDER_PATHS["relatedPosts"], `${post.PageId}.terms.json`);
+	const updated = new Date(post.LastUpdatedTimeStamp).toISOString();
+	try {
+		const cached: TermsCache = JSON.parse(fs.readFileSync(cachePath, "utf-8"));
+		if (cached.updated === updated) return cached.terms;
+	} catch {
+		// cache miss
+	}
+
+	let text = `${post.Title}\n${post.Excerpt}`;
+	if (!post.IsExternal) {
+		const { blocks } = await getPostContentByPostId(post);
+		text += `\n${
+			extractPageContent(post.PageId, blocks, {
+				extractFootnotes: false,
+				extractCitations: false,
+				extractInterlinkedContent: false,
+				extractText: true,
+			}).text
+		}`;
+	}
+
+	const terms: Record<string, number> = {};
+	for (const word of tokenize(text)) {
+		terms[word] = (terms[word] || 0) + 1;
+	}
+	fs.writeFileSync(cachePath, JSON.stringify({ updated, terms }), "utf-8");
+	return terms;
+}
+
+// Unit-length TF-IDF vectors, so the cosine similarity of two posts is a plain dot product
+function buildTfIdfVectors(termsByPost: Record<string, number>[]): Map<string, number>[] {
+	const documentFrequency = new Map<string, number>();
+	for (const terms of termsByPost) {
+		for (const term of Object.keys(terms)) {
+			documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+		}
+	}
+
+	return termsByPost.map((terms) => {
+		const total = Object.values(terms).reduce((sum, count) => sum + count, 0) || 1;
+		const vector = new Map<string, number>();
+		let norm = 0;
+		for (const [term, count] of Object.entries(terms)) {
+			const weight = (count / total) * Math.log(termsByPost.length / documentFrequency.get(term)!);
+			if (weight > 0) {
+				vector.set(term, weight);
+				norm += weight * weight;
+			}
+		}
+		norm = Math.sqrt(norm);
+		vector.forEach((weight, term) => vector.set(term, weight / norm));
+		return vector;
+	});
+}
+
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+	const [smaller, larger] = a.size < b.size ? [a, b] : [b, a];
+	let dot = 0;
+	smaller.forEach((weight, term) => {
+		dot += weight * (larger.get(term) || 0);
+	});
+	return dot;
+}
+
+function tagOverlap(a: Post, b: Post): number {
+	const tagsA = new Set(a.Tags.map((tag) => tag.name));
+	const tagsB = new Set(b.Tags.map((tag) => tag.name));
+	const shared = [...tagsA].filter((tag) => tagsB.has(tag)).length;
+	const union = new Set([...tagsA, ...tagsB]).size;
+	return union ? shared / union : 0;
+}
+
+function getSignature(posts: Post[]): string {
+	const input = JSON.stringify({
+		count: RELATED_POSTS.count,
+		weights: RELATED_POSTS.weights,
+		posts: posts.map((post) => [
+			post.PageId,
+			new Date(post.LastUpdatedTimeStamp).toISOString(),
+			post.Collection,
+			post.Tags.map((tag) => tag.name),
+		]),
+	});
+	return crypto.createHash("md5").update(input).digest("hex");
+}
+
+/**
+ * Scores every pair of posts on shared tags, same collection, links between them and
+ * TF-IDF similarity of their text, and writes the top matches per post to tmp/.
+ * Runs after the interlinked-content-to-page graph is built; skipped when no post changed.
+ */
+export async function buildRelatedPosts(): Promise<Record<string, string[]>> {
+	let posts = await getAllPosts();
+	if (HIDE_UNDERSCORE_SLUGS_IN_LISTS) {
+		posts = posts.filter((post) => !post.Slug.startsWith("_"));
+	}
+
+	const cachePath = path.join(BUILD_FOLDER_PATHS["relatedPosts"], RELATED_POSTS_FILE);
+	const signature = getSignature(posts);
+	try {
+		const cached: RelatedPostsCache = JSON.parse(fs.readFileSync(cachePath, "utf-8"));
+		if (cached.signature === signature) {
+			relatedPostsCache = cached.related;
+			return cached.related;
+		}
+	} catch {
+		// cache miss
+	}
+
+	const termsByPost: Record<string, number>[] = [];
+	for (const post of posts) {
+		termsByPost.push(await getPostTerms(post));
+	}
+	const vectors = buildTfIdfVectors(termsByPost);
+
+	// Links count in both directions: either post mentioning the other relates them
+	const postIds = new Set(posts.map((post) => post.PageId));
+	const linked = new Set<string>();
+	for (const post of posts) {
+		for (const { entryId } of getInterlinkedContentToPage(post.PageId) || []) {
+			if (entryId === post.PageId || !postIds.has(entryId)) continue;
+			linked.add(`${entryId}:${post.PageId}`);
+			linked.add(`${post.PageId}:${entryId}`);
+		}
+	}
+
+	const { weights } = RELATED_POSTS;
+	const related: Record<string, string[]> = {};
+	posts.forEach((post, i) => {
+		const scored = posts
+			.map((other, j) => {
+				if (i === j) return { other, score: 0 };
+				const score =
+					weights.tags * tagOverlap(post, other) +
+					weights.collection * (post.Collection && post.Collection === other.Collection ? 1 : 0) +
+					weights.links * (linked.has(`${post.PageId}:${other.PageId}`) ? 1 : 0) +
+					weights.text * cosineSimilarity(vectors[i]!, vectors[j]!);
+				return { other, score };
+			})
+			.filter(({ score }) => score > 0)
+			.sort(
+				(a, b) =>
+					b.score - a.score || new Date(b.other.Date).getTime() - new Date(a.other.Date).getTime(),
+			);
+		related[post.PageId] = scored.slice(0, RELATED_POSTS.count).map(({ other }) => other.PageId);
+	});
+
+	fs.writeFileSync(cachePath, JSON.stringify({ signature, related }), "utf-8");
+	relatedPostsCache = related;
+	return related;
+}
+
+export async function getRelatedPosts(post: Post): Promise<Post[]> {
+	if (relatedPostsCache === null) {
+		try {
+			const cached: RelatedPostsCache = JSON.parse(
+				fs.readFileSync(path.join(BUILD_FOLDER_PATHS["relatedPosts"], RELATED_POSTS_FILE), "utf-8"),
+			);
+			relatedPostsCache = cached.related;
+		} catch {
+			// Not built yet (e.g. in the dev server)
+			relatedPostsCache = await buildRelatedPosts();
+		}
+	}
+
+	const relatedIds = relatedPostsCache[post.PageId] || [];
+	if (relatedIds.length === 0) return [];
+	const postsById = new Map((await getAllPosts()).map((p) => [p.PageId, p]));
+	return relatedIds.map((id) => postsById.get(id)).filter((p): p is Post => !!p);
+}
@@ -0,0 +1,164 @@
+import fs from "node:fs";
+import path from "node:path";
+import superjson from "superjson";
+import { BUILD_FOLDER_PATHS } from "../constants";
+import type { Block, Post } from "./interfaces";
+import { extractPageContent } from "./blog-helpers";
+import { joinPlainText } from "../utils/richtext-utils";
+
+export interface PostRevision {
+	/** URL-safe key derived from LastUpdatedTimeStamp, e.g. 2026-03-04-101500 */
+	Key: string;
+	Date: Date;
+}
+
+export interface RevisionChangeSummary {
+	added: string[];
+	removed: string[];
+	changed: string[];
+}
+
+// Blocks before the first heading are grouped under this name
+const LEAD_SECTION = "Introduction";
+
+export function getRevisionKey(timestamp: Date | string): string {
+	return new Date(timestamp)
+		.toISOString()
+		.replace(/\.\d+Z$/, "")
+		.replace("T", "-")
+		.replace(/:/g, "");
+}
+
+function revisionKeyToDate(key: string): Date {
+	const [, date, hh, mm, ss] = key.match(/^(\d{4}-\d{2}-\d{2})-(\d{2})(\d{2})(\d{2})$/) || [];
+	return new Date(`${date}T${hh}:${mm}:${ss}Z`);
+}
+
+function getRevisionsDir(post: Post): string {
+	return path.join(BUILD_FOLDER_PATHS["revisions"], post.PageId);
+}
+
+// Only published top-level posts keep a history; drafts and sub-pages are not versioned
+export function isVersionedPost(post: Post): boolean {
+	return !post.IsDraft && !post.ParentPageId && !post.IsExternal;
+}
+
+/**
+ * Keeps the block JSON of the post as it was at its current LastUpdatedTimeStamp.
+ * Existing snapshots are never overwritten, so each published revision stays as first built.
+ * They live in ./revisions, which the build never clears: commit it (or keep it in its own CI
+ * cache, as the workflow does) or the archived /v/[date] pages go with the runner.
+ */
+export function saveRevision(post: Post, blocks: Block[]): void {
+	if (!isVersionedPost(post)) return;
+	const dir = getRevisionsDir(post);
+	const filePath = path.join(dir, `${getRevisionKey(post.LastUpdatedTimeStamp)}.json`);
+	if (fs.existsSync(filePath)) return;
+	fs.mkdirSync(dir, { recursive: true });
+	fs.writeFileSync(filePath, superjson.stringify(blocks), "utf-8");
+}
+
+/** Revisions of the post, newest (the current version) first. */
+export function getRevisions(post: Post): PostRevision[] {
+	if (!isVersionedPost(post)) return [];
+	let files: string[];
+	try {
+		files = fs.readdirSync(getRevisionsDir(post));
+	} catch {
+		return [];
+	}
+	return files
+		.filter((file) => file.endsWith(".json"))
+		.map((file) => file.replace(/\.json$/, ""))
+		.sort()
+		.reverse()
+		.map((key) => ({ Key: key, Date: revisionKeyToDate(key) }));
+}
+
+export function loadRevisionBlocks(post: Post, key: string): Block[] | null {
+	try {
+		return superjson.parse(
+			fs.readFileSync(path.join(getRevisionsDir(post), `${key}.json`), "utf-8"),
+		);
+	} catch {
+		return null;
+	}
+}
+
+function getHeadingText(block: Block): string | null {
+	const heading = block.Heading1 || block.Heading2 || block.Heading3 || block.Heading4;
+	return heading ? joinPlainText(heading.RichTexts).trim() : null;
+}
+
+// Splits top-level blocks into sections at each heading and fingerprints their content
+function getSections(blocks: Block[]): Map<string, string> {
+	const grouped: { name: string; blocks: Block[] }[] = [];
+	let current = { name: LEAD_SECTION, blocks: [] as Block[] };
+	for (const block of blocks) {
+		const headingText = getHeadingText(block);
+		if (headingText !== null) {
+			if (current.blocks.length > 0) grouped.push(current);
+			current = { name: headingText || "Untitled section", blocks: [] };
+		}
+		current.blocks.push(block);
+	}
+	if (current.blocks.length > 0) grouped.push(current);
+
+	const sections = new Map<string, string>();
+	for (const { name, blocks: sectionBlocks } of grouped) {
+		let uniqueName = name;
+		for (let n = 2; sections.has(uniqueName); n++) {
+			uniqueName = `${name} (${n})`;
+		}
+		// Text and block ids only: file URLs in the JSON expire and would look like edits
+		const { text } = extractPageContent("", sectionBlocks, {
+			extractFootnotes: false,
+			extractCitations: false,
+			extractInterlinkedContent: false,
+			extractText: true,
+		});
+		sections.set(uniqueName, `${sectionBlocks.map((block) => block.Id).join(",")}\n${text}`);
+	}
+	return sections;
+}
+
+/** Sections added, removed or changed between two versions of a post's blocks. */
+export function summarizeRevisionChanges(
+	previous: Block[],
+	current: Block[],
+): RevisionChangeSummary {
+	const before = getSections(previous);
+	const after = getSections(current);
+	const summary: RevisionChangeSummary = { added: [], removed: [], changed: [] };
+	after.forEach((fingerprint, name) => {
+		if (!before.has(name)) summary.added.push(name);
+		else if (before.get(name) !== fingerprint) summary.changed.push(name);
+	});
+	before.forEach((_, name) => {
+		if (!after.has(name)) summary.removed.push(name);
+	});
+	return summary;
+}
+
+/**
+ * Each revision with what changed since the one before it (null for the first revision).
+ * Newest first, like getRevisions.
+ */
+export function getRevisionChangelog(
+	post: Post,
+): { revision: PostRevision; changes: RevisionChangeSummary | null }[] {
+	const revisions = getRevisions(post);
+	const blocksByKey = new Map(revisions.map((rev) => [rev.Key, loadRevisionBlocks(post, rev.Key)]));
+	return revisions.map((revision, i) => {
+		const previous = revisions[i + 1];
+		const previousBlocks = previous ? blocksByKey.get(previous.Key) : null;
+		const currentBlocks = blocksByKey.get(revision.Key);
+		return {
+			revision,
+			changes:
+				previousBlocks && currentBlocks
+					? summarizeRevisionChanges(previousBlocks, currentBlocks)
+					: null,
+		};
+	});
+}
@@ -0,0 +1,55 @@
+import rss from "@astrojs/rss";
+import type { Post } from "./interfaces";
+import { resolvePostHref, getNavLink } from "./blog-helpers";
+import { AUTHOR } from "../constants";
+import { getDateObject } from "../utils/date";
+
+/**
+ * Get author string for a post.
+ * Uses Authors array if available, falls back to site's AUTHOR constant.
+ */
+function getPostAuthor(post: { Authors?: { name: string }[] | undefined }): string {
+	if (post.Authors && post.Authors.length > 0) {
+		return post.Authors.map((a) => a.name).join(", ");
+	}
+	return AUTHOR;
+}
+
+// Shared by the site feed and the per-language feeds; rss-content-enhancer adds full content later
+export function buildRssFeed({
+	posts,
+	title,
+	description,
+	language,
+}: {
+	posts: Post[];
+	title: string;
+	description: string;
+	language?: string;
+}) {
+	// Get site-level author (fallback)
+	const siteAuthor = AUTHOR;
+
+	return rss({
+		stylesheet: getNavLink("/rss-styles.xsl"),
+		title,
+		description,
+		site: import.meta.env.SITE,
+		customData: `${language ? `<language>${language}</language>` : ""}${siteAuthor ? `<author>${siteAuthor}</author>` : ""}
+                <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+		items: posts.map((post) => {
+			const postAuthor = getPostAuthor(post);
+			return {
+				title: post.Title,
+				description: post.Excerpt,
+				pubDate: getDateObject(post.LastUpdatedDate) ?? new Date(post.LastUpdatedTimeStamp),
+				customData: `<lastUpdatedTimestamp>${post.LastUpdatedTimeStamp}</lastUpdatedTimestamp>${postAuthor ? `<author>${postAuthor}</author>` : ""}`,
+				link: new URL(resolvePostHref(post), import.meta.env.SITE).toString(),
+				categories: [
+					...(post.Collection ? [post.Collection] : []),
+					...(post.Tags ? post.Tags.map((tag) => tag.name) : []),
+				],
+			};
+		}),
+	});
+}
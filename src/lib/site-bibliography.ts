@@ -0,0 +1,75 @@
+import type { SiteBibliographyEntry } from "./interfaces";
+import {
+	BIBLIOGRAPHY_STYLE,
+	BIBTEX_CITATIONS_ENABLED,
+	HIDE_UNDERSCORE_SLUGS_IN_LISTS,
+} from "../constants";
+import { formatCitation } from "./citations";
+import {
+	getAllEntries,
+	getAllSubPages,
+	getBibEntriesCacheSnapshot,
+	getPostContentByPostId,
+} from "./notion/client";
+
+let siteBibliographyCache: SiteBibliographyEntry[] | null = null;
+
+/**
+ * Every work cited on the site, in posts and their sub-pages, rendered in bibliography-format
+ * with the pages and blocks that cite it. Always sorted by author: first appearance, which
+ * numeric and note styles order by, only exists within a page. Loads each page's content, so
+ * the citations are current even when the per-page citation caches are not.
+ */
+export async function getSiteBibliography(): Promise<SiteBibliographyEntry[]> {
+	if (siteBibliographyCache) return siteBibliographyCache;
+	if (!BIBTEX_CITATIONS_ENABLED) return [];
+
+	let posts = (await getAllEntries()).filter((post) => !post.IsExternal);
+	if (HIDE_UNDERSCORE_SLUGS_IN_LISTS) {
+		posts = posts.filter((post) => !post.Slug.startsWith("_"));
+	}
+
+	// Sub-pages of listed posts, filed under the tags of the post they belong to
+	const tagsBySlug = new Map(posts.map((post) => [post.Slug, post.Tags]));
+	const subPages = (await getAllSubPages()).filter((subPage) =>
+		tagsBySlug.has(subPage.Slug.split("/")[0]!),
+	);
+
+	const bibEntries = getBibEntriesCacheSnapshot();
+	const entriesByKey = new Map<string, SiteBibliographyEntry>();
+
+	for (const post of [...posts, ...subPages]) {
+		const tags = tagsBySlug.get(post.Slug.split("/")[0]!) || [];
+		const { citationsInPage } = await getPostContentByPostId(post);
+		for (const citation of citationsInPage || []) {
+			let entry = entriesByKey.get(citation.Key);
+			if (!entry) {
+				const bibEntry = bibEntries.get(citation.Key);
+				entry = {
+					Key: citation.Key,
+					// Pages can use their collection's style; the site-wide list uses bibliography-format
+					FormattedEntry: bibEntry
+						? formatCitation(bibEntry, BIBLIOGRAPHY_STYLE).bibliography
+						: citation.FormattedEntry,
+					Authors: citation.Authors,
+					Year: citation.Year,
+					CitedIn: [],
+					Tags: [],
+				};
+				entriesByKey.set(citation.Key, entry);
+			}
+			entry.CitedIn.push({ Post: post, BlockIds: [...new Set(citation.SourceBlockIds)] });
+			for (const tag of tags) {
+				if (!entry.Tags.includes(tag.name)) entry.Tags.push(tag.name);
+			}
+		}
+	}
+
+	siteBibliographyCache = [...entriesByKey.values()].sort(
+		(a, b) =>
+			a.Authors.localeCompare(b.Authors) ||
+			a.Year.localeCompare(b.Year) ||
+			a.Key.localeCompare(b.Key),
+	);
+	return siteBibliographyCache;
+}
@@ -0,0 +1,60 @@
+import type { Block } from "./interfaces";
+import { THEOREM_ENVIRONMENTS } from "../constants";
+import { extractTargetBlocks } from "./blog-helpers";
+import { extractLabel } from "./figures";
+import { extractLeadingMarker, joinPlainText } from "../utils/richtext-utils";
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "Keyword:" or "Keyword (Name):" at the start of the callout text, in any letter case
+function matchEnvironment(
+	text: string,
+): { keyword: string; name: string | null; prefix: string } | null {
+	for (const keyword of Object.keys(THEOREM_ENVIRONMENTS.environments)) {
+		const pattern = new RegExp(`^\\s*${escapeRegExp(keyword)}(?:\\s*\\(([^)]*)\\))?\\s*:`, "i");
+		const match = text.match(pattern);
+		if (match) {
+			return { keyword, name: match[1]?.trim() || null, prefix: match[0].trimStart() };
+		}
+	}
+	return null;
+}
+
+/**
+ * Turns callouts that start with a configured keyword ("Theorem:", "Lemma (Zorn):", "Proof:")
+ * into theorem-like environments and numbers them per counter in page order. The keyword and
+ * any figure-label shortcode are stripped from the callout text. Safe to run again on blocks
+ * it has already processed.
+ */
+export function numberTheorems(blocks: Block[]): void {
+	if (!THEOREM_ENVIRONMENTS.enabled) return;
+
+	const counts = new Map<string, number>();
+
+	for (const block of extractTargetBlocks(["callout"], blocks)) {
+		const callout = block.Callout;
+		if (!callout) continue;
+
+		if (!callout.Theorem) {
+			const environment = matchEnvironment(joinPlainText(callout.RichTexts));
+			if (!environment) continue;
+			extractLeadingMarker(callout.RichTexts, environment.prefix);
+			callout.Theorem = {
+				Keyword: environment.keyword,
+				Counter: THEOREM_ENVIRONMENTS.environments[environment.keyword] ?? undefined,
+				Name: environment.name ?? undefined,
+				Label: extractLabel(callout.RichTexts) ?? undefined,
+				Qed: THEOREM_ENVIRONMENTS.qedEnvironments.includes(environment.keyword),
+			};
+		}
+
+		const counter = callout.Theorem.Counter;
+		if (counter) {
+			const number = (counts.get(counter) ?? 0) + 1;
+			counts.set(counter, number);
+			callout.Theorem.Number = number;
+		}
+	}
+}
@@ -0,0 +1,30 @@
+import type { APIContext, GetStaticPaths } from "astro";
+import { getAllLanguages, getAllPosts, getDataSource } from "@/lib/notion/client";
+import { HIDE_UNDERSCORE_SLUGS_IN_LISTS } from "@/constants";
+import { buildRssFeed } from "@/lib/rss-feed";
+import { getLanguageName, getPostLanguage } from "@/utils/language";
+
+// One feed per language, only on multilingual sites
+export const getStaticPaths = (async () => {
+	const languages = await getAllLanguages();
+	if (languages.length < 2) return [];
+	return languages.map((lang) => ({ params: { lang } }));
+}) satisfies GetStaticPaths;
+
+export const GET = async ({ params }: APIContext) => {
+	const lang = params.lang!;
+	const [posts, database] = await Promise.all([getAllPosts(), getDataSource()]);
+
+	const filteredPosts = posts.filter(
+		(post) =>
+			getPostLanguage(post) === lang &&
+			!(HIDE_UNDERSCORE_SLUGS_IN_LISTS && post.Slug.startsWith("_")),
+	);
+
+	return buildRssFeed({
+		posts: filteredPosts,
+		title: `${database.Title} (${getLanguageName(lang)})`,
+		description: database.Description,
+		language: lang,
+	});
+};
@@ -0,0 +1,39 @@
+import type { APIContext, GetStaticPaths } from "astro";
+import { getAllPosts } from "@/lib/notion/client";
+import { isExternalPost } from "@/lib/blog-helpers";
+import {
+	PAGE_CITATION_DOWNLOADS,
+	formatPageCitationDownload,
+	getPageCitation,
+	type PageCitationDownload,
+} from "@/lib/cite-this-page";
+import { CITATIONS } from "@/constants";
+import type { Post } from "@/lib/interfaces";
+
+// /posts/<slug>/cite.bib, cite.ris and cite.json, for every post with a Cite this page section
+export const getStaticPaths: GetStaticPaths = async () => {
+	if (!CITATIONS?.["add-cite-this-post-section"]) return [];
+
+	const posts = (await getAllPosts()).filter(
+		(post) => (!post.IsExternal || !!post.ExternalContent) && !isExternalPost(post),
+	);
+	const formats = Object.keys(PAGE_CITATION_DOWNLOADS) as PageCitationDownload[];
+
+	return posts.flatMap((post) =>
+		formats.map((format) => ({
+			params: { slug: post.Slug, format },
+			props: { post },
+		})),
+	);
+};
+
+export function GET({ params, props, site }: APIContext<{ post: Post }>) {
+	const format = params.format as PageCitationDownload;
+	const citation = getPageCitation(props.post, site);
+
+	return new Response(formatPageCitationDownload(citation, format), {
+		headers: {
+			"Content-Type": `${PAGE_CITATION_DOWNLOADS[format].contentType}; charset=utf-8`,
+		},
+	});
+}
@@ -0,0 +1,258 @@
+type TabWindow = Window & {
+	__ensureNotionTabTargetVisible?: (targetOrId: HTMLElement | string) => HTMLElement | null;
+	__notionTabHashSyncReady?: string;
+};
+
+// Tab blocks with data-tab-sync share their choice (matched by data-tab-sync-key) with every
+// block in the same sync group on the page, and remember it across pages
+const TAB_SYNC_STORAGE_PREFIX = "notion-tab-sync:";
+
+function readStoredSyncKey(group: string): string | null {
+	try {
+		return localStorage.getItem(TAB_SYNC_STORAGE_PREFIX + group);
+	} catch {
+		return null;
+	}
+}
+
+function storeSyncKey(group: string, key: string) {
+	try {
+		localStorage.setItem(TAB_SYNC_STORAGE_PREFIX + group, key);
+	} catch {
+		/* storage can be unavailable (private mode, blocked cookies) */
+	}
+}
+
+function getTabList(container: HTMLElement): HTMLElement | null {
+	return container.querySelector("[data-tab-list]");
+}
+
+function getTabs(container: HTMLElement): HTMLElement[] {
+	const list = getTabList(container);
+	return list instanceof HTMLElement
+		? Array.from(list.querySelectorAll(':scope > [role="tab"]'))
+		: [];
+}
+
+function getPanels(container: HTMLElement): HTMLElement[] {
+	return Array.from(container.querySelectorAll<HTMLElement>(":scope > [data-tab-panel]"));
+}
+
+function updateScrollState(container: HTMLElement) {
+	const header = container.querySelector("[data-tab-header]");
+	const list = getTabList(container);
+	if (!(header instanceof HTMLElement) || !(list instanceof HTMLElement)) return;
+
+	const maxScrollLeft = Math.max(0, list.scrollWidth - list.clientWidth);
+	const threshold = 6;
+	header.dataset.canScrollLeft = String(list.scrollLeft > threshold);
+	header.dataset.canScrollRight = String(list.scrollLeft < maxScrollLeft - threshold);
+}
+
+function scrollTabIntoListView(tab: HTMLElement, behavior: ScrollBehavior = "auto") {
+	const list = tab.closest("[data-tab-list]");
+	if (!(list instanceof HTMLElement)) return;
+
+	const tabLeft = tab.offsetLeft;
+	const tabRight = tabLeft + tab.offsetWidth;
+	const visibleLeft = list.scrollLeft;
+	const visibleRight = visibleLeft + list.clientWidth;
+
+	if (tabLeft < visibleLeft) {
+		list.scrollTo({ left: tabLeft, behavior });
+	} else if (tabRight > visibleRight) {
+		list.scrollTo({ left: tabRight - list.clientWidth, behavior });
+	}
+}
+
+function setActiveTab(container: HTMLElement, nextIndex: number, shouldFocus = false) {
+	const tabs = getTabs(container);
+	const panels = getPanels(container);
+	if (!tabs.length) return;
+
+	const boundedIndex = Math.max(0, Math.min(nextIndex, tabs.length - 1));
+
+	tabs.forEach((tab, index) => {
+		const isActive = index === boundedIndex;
+		tab.setAttribute("aria-selected", String(isActive));
+		tab.setAttribute("tabindex", isActive ? "0" : "-1");
+		tab.classList.toggle("is-active", isActive);
+	});
+
+	panels.forEach((panel, index) => {
+		panel.hidden = index !== boundedIndex;
+	});
+
+	if (shouldFocus) {
+		tabs[boundedIndex]?.focus();
+	}
+
+	const activeTab = tabs[boundedIndex];
+	if (activeTab) scrollTabIntoListView(activeTab, shouldFocus ? "smooth" : "auto");
+
+	requestAnimationFrame(() => updateScrollState(container));
+}
+
+function findSyncedTabIndex(container: HTMLElement, key: string): number {
+	return getTabs(container).findIndex((tab) => tab.dataset.tabSyncKey === key);
+}
+
+function selectTab(container: HTMLElement, nextIndex: number, shouldFocus = false) {
+	setActiveTab(container, nextIndex, shouldFocus);
+
+	const group = container.dataset.tabSync;
+	const key = getTabs(container)[nextIndex]?.dataset.tabSyncKey;
+	if (!group || !key) return;
+
+	storeSyncKey(group, key);
+	document.querySelectorAll<HTMLElement>("[data-notion-tab-block]").forEach((other) => {
+		if (other === container || other.dataset.tabSync !== group) return;
+		const index = findSyncedTabIndex(other, key);
+		if (index !== -1) setActiveTab(other, index);
+	});
+}
+
+function getInitialTabIndex(container: HTMLElement): number {
+	const group = container.dataset.tabSync;
+	const storedKey = group ? readStoredSyncKey(group) : null;
+	const storedIndex = storedKey ? findSyncedTabIndex(container, storedKey) : -1;
+	return storedIndex !== -1 ? storedIndex : Number(container.dataset.initialTab ?? 0);
+}
+
+function revealTargetInTabs(target: HTMLElement | null): HTMLElement | null {
+	if (!(target instanceof HTMLElement)) return null;
+
+	const activations = [];
+	let current = target.parentElement;
+
+	while (current) {
+		if (current.matches("[data-tab-panel]")) {
+			const container = current.closest("[data-notion-tab-block]");
+			if (container instanceof HTMLElement) {
+				activations.push({ container, panel: current });
+			}
+		}
+		current = current.parentElement;
+	}
+
+	activations.reverse().forEach(({ container, panel }) => {
+		const panels = getPanels(container);
+		const index = panels.indexOf(panel);
+		if (index !== -1) {
+			setActiveTab(container, index);
+		}
+	});
+
+	return target;
+}
+
+function resolveTarget(targetOrId: HTMLElement | string): HTMLElement | null {
+	if (targetOrId instanceof HTMLElement) return targetOrId;
+	if (typeof targetOrId !== "string") return null;
+
+	const rawId = targetOrId.startsWith("#") ? targetOrId.slice(1) : targetOrId;
+	if (!rawId) return null;
+
+	const target = document.getElementById(decodeURIComponent(rawId));
+	return target instanceof HTMLElement ? target : null;
+}
+
+function initTabBlock(container: HTMLElement) {
+	if (container.dataset.tabsReady === "true") return;
+	container.dataset.tabsReady = "true";
+
+	const list = container.querySelector("[data-tab-list]");
+
+	setActiveTab(container, getInitialTabIndex(container));
+	updateScrollState(container);
+
+	if (list instanceof HTMLElement) {
+		list.addEventListener("scroll", () => updateScrollState(container), { passive: true });
+
+		if ("ResizeObserver" in window) {
+			const resizeObserver = new ResizeObserver(() => updateScrollState(container));
+			resizeObserver.observe(list);
+		}
+	}
+
+	window.addEventListener("resize", () => updateScrollState(container), { passive: true });
+
+	container.addEventListener("click", (event: MouseEvent) => {
+		const tab = event.target instanceof Element ? event.target.closest('[role="tab"]') : null;
+		if (!(tab instanceof HTMLElement) || !container.contains(tab)) return;
+		const nextIndex = Number(tab.dataset.tabIndex ?? 0);
+		selectTab(container, nextIndex);
+	});
+
+	container.addEventListener("keydown", (event: KeyboardEvent) => {
+		const currentTab =
+			event.target instanceof Element ? event.target.closest('[role="tab"]') : null;
+		if (!(currentTab instanceof HTMLElement) || !container.contains(currentTab)) return;
+
+		const tabs = getTabs(container);
+		const currentIndex = tabs.indexOf(currentTab);
+		if (currentIndex === -1) return;
+
+		let nextIndex = currentIndex;
+
+		switch (event.key) {
+			case "ArrowRight":
+			case "ArrowDown":
+				nextIndex = (currentIndex + 1) % tabs.length;
+				break;
+			case "ArrowLeft":
+			case "ArrowUp":
+				nextIndex = (currentIndex - 1 + tabs.length) % tabs.length;
+				break;
+			case "Home":
+				nextIndex = 0;
+				break;
+			case "End":
+				nextIndex = tabs.length - 1;
+				break;
+			case "Enter":
+			case " ":
+				selectTab(container, currentIndex);
+				event.preventDefault();
+				return;
+			default:
+				return;
+		}
+
+		event.preventDefault();
+		selectTab(container, nextIndex, true);
+	});
+}
+
+if (typeof window !== "undefined") {
+	const tabWindow = window as TabWindow;
+	if (!tabWindow.__ensureNotionTabTargetVisible) {
+		tabWindow.__ensureNotionTabTargetVisible = (targetOrId: HTMLElement | string) => {
+			const target = resolveTarget(targetOrId);
+			return revealTargetInTabs(target);
+		};
+	}
+
+	if (!tabWindow.__notionTabHashSyncReady) {
+		tabWindow.__notionTabHashSyncReady = "true";
+
+		const syncHashTarget = (behavior: ScrollBehavior = "auto") => {
+			const target = tabWindow.__ensureNotionTabTargetVisible?.(window.location.hash);
+			if (!(target instanceof HTMLElement)) return;
+
+			requestAnimationFrame(() => {
+				target.scrollIntoView({ behavior, block: "start" });
+			});
+		};
+
+		window.addEventListener("hashchange", () => syncHashTarget("smooth"));
+
+		if (window.location.hash) {
+			requestAnimationFrame(() => syncHashTarget("auto"));
+		}
+	}
+}
+
+document.querySelectorAll<HTMLElement>("[data-notion-tab-block]").forEach((container) => {
+	initTabBlock(container);
+});
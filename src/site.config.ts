@@ -1,6 +1,7 @@
 import { getDataSource } from "@/lib/notion/client";
 import type { SiteConfig } from "@/types";
-import { AUTHOR, WEBMENTION_LINK, HOME_PAGE_SLUG } from "@/constants";
+import { AUTHOR, WEBMENTION_LINK, HOME_PAGE_SLUG, SITE_LANGUAGE } from "@/constants";
+import { toOgLocale } from "@/utils/language";
 
 const tl = "",
 	ds = "";
@@ -13,13 +14,13 @@ export const siteInfo: SiteConfig = {
 	title: siteTitle,
 	description: siteDescription,
 	author: AUTHOR,
-	lang: "en",
+	lang: SITE_LANGUAGE,
 	homePageSlug: HOME_PAGE_SLUG,
 	// Meta property, found in src/components/BaseHead.astro L:42
-	ogLocale: "en",
+	ogLocale: toOgLocale(SITE_LANGUAGE),
 	// Date.prototype.toLocaleDateString() parameters, found in src/utils/date.ts.
 	date: {
-		locale: "en",
+		locale: SITE_LANGUAGE,
 		options: {
 			day: "numeric",
 			month: "short",
@@ -1,4 +1,4 @@
-import type { FileObject, Emoji } from "@/lib/interfaces";
+import type { FileObject, Emoji, PageCitation } from "@/lib/interfaces";
 
 export type SocialLink = {
 	name: string;
@@ -38,6 +38,13 @@ export type SiteMeta = {
 	articleDate?: string | undefined;
 	author?: string | undefined;
 	hasMarkdownAlternate?: boolean | undefined;
+	noindex?: boolean | undefined;
+	/** BCP 47 language of the page when it differs from the site language */
+	lang?: string | undefined;
+	/** The same page in other languages (the page itself included), for hreflang links */
+	alternateLanguages?: { lang: string; href: string }[] | undefined;
+	/** Highwire citation_* meta tags, for posts that can be cited */
+	citation?: PageCitation | undefined;
 };
 
 /** Webmentions */
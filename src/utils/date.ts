@@ -1,6 +1,8 @@
+import { SITE_LANGUAGE } from "../constants";
+
 const dateOptions = {
 	date: {
-		locale: "en",
+		locale: SITE_LANGUAGE,
 		options: {
 			day: "numeric",
 			month: "short",
@@ -91,6 +93,7 @@ function toDateObject(date: string | number | Date): Date {
 export function getFormattedDate(
 	date: string | number | Date,
 	options?: Intl.DateTimeFormatOptions,
+	locale: string = dateOptions.date.locale,
 ) {
 	const formatOptions = {
 		...(dateOptions.date.options as Intl.DateTimeFormatOptions),
@@ -98,7 +101,7 @@ export function getFormattedDate(
 	};
 
 	if (isDateOnlyString(date)) {
-		return new Intl.DateTimeFormat(dateOptions.date.locale, {
+		return new Intl.DateTimeFormat(locale, {
 			...formatOptions,
 			timeZone: "UTC",
 		}).format(parseDateOnlyString(date));
@@ -106,8 +109,8 @@ export function getFormattedDate(
 
 	const parsedDate = toDateObject(date);
 
-	if (typeof options !== "undefined") {
-		return parsedDate.toLocaleDateString(dateOptions.date.locale, formatOptions);
+	if (typeof options !== "undefined" || locale !== dateOptions.date.locale) {
+		return parsedDate.toLocaleDateString(locale, formatOptions);
 	}
 
 	return dateFormat.format(parsedDate);
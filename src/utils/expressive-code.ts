@@ -0,0 +1,200 @@
+import type { ShikiTransformer } from "shiki";
+import { SHORTCODES } from "../constants";
+
+type HastElement = Parameters<NonNullable<ShikiTransformer["code"]>>[0];
+type HastContent = HastElement["children"][number];
+
+export interface ExpressiveCodeOptions {
+	title: string | null;
+	frame: "code" | "terminal" | "none";
+	showLineNumbers: boolean;
+	startLineNumber: number;
+	mark: number[];
+	ins: number[];
+	del: number[];
+	collapse: [number, number][];
+	wrap: boolean;
+}
+
+// Shell snippets get a terminal frame unless the block asks for another one
+const TERMINAL_LANGUAGES = ["bash", "sh", "shell", "zsh", "powershell", "console"];
+
+// key, key=value, key="value", key='value' or key={1, 3-5}
+const META_PATTERN = /([\w-]+)(?:=(?:"([^"]*)"|'([^']*)'|\{([^}]*)\}|(\S+)))?/g;
+
+function parseRanges(value: string): [number, number][] {
+	return value
+		.split(",")
+		.map((part) => part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/))
+		.filter((match): match is RegExpMatchArray => match !== null)
+		.map((match) => {
+			const from = Number(match[1]);
+			const to = match[2] ? Number(match[2]) : from;
+			return [Math.min(from, to), Math.max(from, to)];
+		});
+}
+
+function expandRanges(ranges: [number, number][]): number[] {
+	return ranges.flatMap(([from, to]) => Array.from({ length: to - from + 1 }, (_, i) => from + i));
+}
+
+/**
+ * Parses the options between the expressive-code start and end shortcodes, using the same
+ * meta syntax as Expressive Code fences: title="app.ts" frame="terminal" showLineNumbers
+ * startLineNumber=10 mark={3} ins={4-5} del={6} collapse={12-30} wrap
+ */
+export function parseExpressiveCodeMeta(meta: string, language: string): ExpressiveCodeOptions {
+	const options: ExpressiveCodeOptions = {
+		title: null,
+		frame: TERMINAL_LANGUAGES.includes(language) ? "terminal" : "code",
+		showLineNumbers: false,
+		startLineNumber: 1,
+		mark: [],
+		ins: [],
+		del: [],
+		collapse: [],
+		wrap: false,
+	};
+
+	for (const match of meta.matchAll(META_PATTERN)) {
+		const key = match[1]!;
+		const value = match[2] ?? match[3] ?? match[4] ?? match[5];
+		const isOff = value === "false";
+		switch (key) {
+			case "title":
+				options.title = value?.trim() || null;
+				break;
+			case "frame":
+				if (value === "code" || value === "terminal" || value === "none") options.frame = value;
+				break;
+			case "showLineNumbers":
+				options.showLineNumbers = !isOff;
+				break;
+			case "startLineNumber":
+				if (value && /^\d+$/.test(value)) options.startLineNumber = Number(value);
+				break;
+			case "mark":
+			case "ins":
+			case "del":
+				if (value) options[key].push(...expandRanges(parseRanges(value)));
+				break;
+			case "collapse":
+				if (value) options.collapse.push(...parseRanges(value));
+				break;
+			case "wrap":
+				options.wrap = !isOff;
+				break;
+		}
+	}
+
+	return options;
+}
+
+/**
+ * Splits a code block that starts with the expressive-code shortcodes into its frame options
+ * and the code itself. Returns null for every other code block.
+ */
+export function extractExpressiveCode(
+	code: string,
+	language: string,
+): { options: ExpressiveCodeOptions; code: string } | null {
+	const shortcode = SHORTCODES["expressive-code"];
+	if (!shortcode?.start || !shortcode?.end) return null;
+
+	const trimmed = code.trimStart();
+	if (!trimmed.startsWith(shortcode.start)) return null;
+	const endIndex = trimmed.indexOf(shortcode.end, shortcode.start.length);
+	if (endIndex === -1) return null;
+
+	return {
+		options: parseExpressiveCodeMeta(trimmed.slice(shortcode.start.length, endIndex), language),
+		code: trimmed.slice(endIndex + shortcode.end.length).replace(/^[^\S\n]*\n/, ""),
+	};
+}
+
+// Shiki keeps class as a string until a transformer adds one, then as an array
+function isLineElement(node: HastContent): node is HastElement {
+	if (node.type !== "element") return false;
+	const className = node.properties?.class;
+	const classes = Array.isArray(className)
+		? className.map(String)
+		: String(className ?? "").split(" ");
+	return classes.includes("line");
+}
+
+/**
+ * Shiki transformer for framed code blocks. Marked, inserted and deleted lines reuse the
+ * classes of the notation transformers so they share their styles; line numbers and the
+ * collapsed-lines summary carry no-rss so feeds and markdown keep only the code.
+ */
+export function expressiveCodeTransformer(options: ExpressiveCodeOptions): ShikiTransformer {
+	return {
+		name: "webtrotion:expressive-code",
+		pre(node) {
+			if (options.mark.length > 0) this.addClassToHast(node, "has-highlighted");
+			if (options.ins.length > 0 || options.del.length > 0) this.addClassToHast(node, "has-diff");
+			if (options.showLineNumbers) this.addClassToHast(node, "has-line-numbers");
+		},
+		line(node, line) {
+			if (options.mark.includes(line)) this.addClassToHast(node, "highlighted");
+			if (options.ins.includes(line)) this.addClassToHast(node, ["diff", "add"]);
+			if (options.del.includes(line)) this.addClassToHast(node, ["diff", "remove"]);
+			if (options.showLineNumbers) {
+				node.children.unshift({
+					type: "element",
+					tagName: "span",
+					properties: { class: "code-line-number no-rss", "aria-hidden": "true" },
+					children: [{ type: "text", value: String(line + options.startLineNumber - 1) }],
+				});
+			}
+		},
+		code(node) {
+			if (options.collapse.length === 0) return;
+
+			// Each collapsed range becomes a <details> holding its lines and their newlines,
+			// so unwrapping it gives back the original text
+			const children: HastContent[] = [];
+			let lineNumber = 0;
+			let group = null as { range: [number, number]; details: HastElement } | null;
+
+			for (const child of node.children) {
+				if (isLineElement(child)) {
+					lineNumber++;
+					const range = options.collapse.find(
+						([from, to]) => lineNumber >= from && lineNumber <= to,
+					);
+					if (!range) {
+						group = null;
+					} else if (group?.range !== range) {
+						group = {
+							range,
+							details: {
+								type: "element",
+								tagName: "details",
+								properties: { class: "code-collapsed" },
+								children: [],
+							},
+						};
+						children.push(group.details);
+					}
+				}
+				(group ? group.details.children : children).push(child);
+			}
+
+			for (const child of children) {
+				if (child.type !== "element" || child.tagName !== "details") continue;
+				const lines = child.children.filter(isLineElement).length;
+				child.children.unshift({
+					type: "element",
+					tagName: "summary",
+					properties: { class: "code-collapsed-summary no-rss" },
+					children: [
+						{ type: "text", value: `${lines} collapsed ${lines === 1 ? "line" : "lines"}` },
+					],
+				});
+			}
+
+			node.children = children;
+		},
+	};
+}
@@ -1,4 +1,5 @@
 import { getAllPages, getDataSource } from "@/lib/notion/client";
+import { getMappedSchemaOptions } from "@/lib/notion/property-mapping";
 
 import { MENU_PAGES_COLLECTION, HOME_PAGE_SLUG } from "@/constants";
 import { slugify } from "@/utils/slugify";
@@ -14,6 +15,7 @@ export {
 	getMachineDateISOString,
 	areDifferentDates,
 } from "@/utils/date";
+export { getPostLanguage, getLanguageName, toOgLocale } from "@/utils/language";
 export { generateToc, buildHeadings } from "@/utils/generateToc";
 export type { TocItem } from "@/utils/generateToc";
 export { getWebmentionsForUrl } from "@/utils/webmentions";
@@ -27,16 +29,16 @@ export {
 export async function getCollections() {
 	const { propertiesRaw } = await getDataSource();
 
-	return propertiesRaw
-		.Collection!.select!.options.map(({ name }) => name)
+	return getMappedSchemaOptions(propertiesRaw, "collection")
+		.map(({ name }) => name)
 		.filter((name) => name !== MENU_PAGES_COLLECTION);
 }
 
 export async function getCollectionsWDesc() {
 	const { propertiesRaw } = await getDataSource();
 
-	return propertiesRaw
-		.Collection!.select!.options.filter(({ name }) => name !== MENU_PAGES_COLLECTION)
+	return getMappedSchemaOptions(propertiesRaw, "collection")
+		.filter(({ name }) => name !== MENU_PAGES_COLLECTION)
 		.map(({ name, description }) => ({ name, description }));
 }
 
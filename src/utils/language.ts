@@ -0,0 +1,37 @@
+import { SITE_LANGUAGE } from "../constants";
+import type { Post } from "../lib/interfaces";
+
+/**
+ * The canonical BCP 47 tag for a language property value ("en-us" -> "en-US"), or undefined
+ * when it is not one, e.g. a select option named "English" that Intl would throw on.
+ */
+export function toLanguageTag(value: string | undefined): string | undefined {
+	if (!value) return undefined;
+	try {
+		return Intl.getCanonicalLocales(value)[0];
+	} catch {
+		return undefined;
+	}
+}
+
+export function getPostLanguage(post: Post): string {
+	return toLanguageTag(post.Language) || SITE_LANGUAGE;
+}
+
+// og:locale wants language_TERRITORY ("pt_BR"), BCP 47 uses a hyphen ("pt-BR")
+export function toOgLocale(language: string): string {
+	return language.replace(/-/g, "_");
+}
+
+/**
+ * Name of a language in that language itself ("Deutsch" for "de"), for language switchers.
+ * Falls back to the code when the runtime has no data for it.
+ */
+export function getLanguageName(language: string, displayLanguage: string = language): string {
+	try {
+		const name = new Intl.DisplayNames([displayLanguage], { type: "language" }).of(language);
+		return name ? name.charAt(0).toLocaleUpperCase(displayLanguage) + name.slice(1) : language;
+	} catch {
+		return language;
+	}
+}
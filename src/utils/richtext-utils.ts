@@ -308,6 +308,8 @@ export function getAllRichTextLocations(block: Block): RichTextLocation[] {
 		addLocation("NAudio.Caption", block.NAudio.Caption, (rt) => (block.NAudio!.Caption = rt));
 	block.File?.Caption &&
 		addLocation("File.Caption", block.File.Caption, (rt) => (block.File!.Caption = rt));
+	block.NPdf?.Caption &&
+		addLocation("NPdf.Caption", block.NPdf.Caption, (rt) => (block.NPdf!.Caption = rt));
 	block.Embed?.Caption &&
 		addLocation("Embed.Caption", block.Embed.Caption, (rt) => (block.Embed!.Caption = rt));
 	block.Bookmark?.Caption &&
@@ -202,6 +202,7 @@ export const getTextToAstroIcon = (text: string) => {
 		web: "mdi:web",
 		"open-in-new": "mdi:open-in-new",
 		"chevron-down": "mdi:chevron-down",
+		wrap: "mdi:wrap",
 	};
 	if (text in textIconMap) {
 		return textIconMap[text];
@@ -275,6 +276,7 @@ export const getTextToSVGPath = (text: string) => {
 		"open-in-new":
 			"M14 3v2h3.59l-9.83 9.83l1.41 1.41L19 6.41V10h2V3m-2 16H5V5h7V3H5a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7h-2z",
 		"chevron-down": "M7.41 8.58L12 13.17l4.59-4.59L18 10l-6 6l-6-6z",
+		wrap: "M21 5H3v2h18zM3 19h7v-2H3zm0-6h15c1 0 2 .43 2 2s-1 2-2 2h-2v-2l-3 3l3 3v-2h2c2.95 0 4-1.27 4-4c0-2.72-1-4-4-4H3z",
 		search:
 			"M9.5 3A6.5 6.5 0 0 1 16 9.5c0 1.61-.59 3.09-1.56 4.23l.27.27h.79l5 5l-1.5 1.5l-5-5v-.79l-.27-.27A6.52 6.52 0 0 1 9.5 16A6.5 6.5 0 0 1 3 9.5A6.5 6.5 0 0 1 9.5 3m0 2C7 5 5 7 5 9.5S7 14 9.5 14S14 12 14 9.5S12 5 9.5 5",
 		"theme-dark":